@@ -0,0 +1,255 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useLabelMapping } from "@/hooks/useLabelMapping";
+import { useRules } from "@/hooks/useRules";
+import { useSettings } from "@/hooks/useSettings";
+import type { Prediction } from "@/hooks/useTeachableModel";
+import {
+  getThreshold,
+  proposeThresholds,
+  type CalibrationSample,
+  type ThresholdProposal,
+} from "@/lib/calibration";
+
+const PREPARE_MS = 2000;
+const RECORD_MS = 3000;
+
+type Step =
+  | { kind: "intro" }
+  | { kind: "prepare"; index: number }
+  | { kind: "record"; index: number }
+  | { kind: "review"; proposals: ThresholdProposal[] };
+
+interface CalibrationWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  labels: string[];
+  getVideo: () => HTMLVideoElement | null;
+  mirror: boolean;
+  predict: (video: HTMLVideoElement) => Promise<Prediction[]>;
+}
+
+function percent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+export default function CalibrationWizard({
+  open,
+  onOpenChange,
+  labels,
+  getVideo,
+  mirror,
+  predict,
+}: CalibrationWizardProps) {
+  const { settings, updateSettings } = useSettings();
+  const rules = useRules();
+  const { mapping } = useLabelMapping(labels);
+  const gestureName = (label: string) => {
+    const gesture = mapping[label] ?? label;
+    return `${rules.emoji(gesture)} ${rules.label(gesture)}`;
+  };
+  const [step, setStep] = useState<Step>({ kind: "intro" });
+  const [elapsed, setElapsed] = useState(0);
+  const samplesRef = useRef<CalibrationSample[]>([]);
+  const previewRef = useRef<HTMLVideoElement>(null);
+
+  // Start over every time the wizard is opened
+  useEffect(() => {
+    if (open) {
+      setStep({ kind: "intro" });
+      samplesRef.current = [];
+    }
+  }, [open]);
+
+  // Show the same camera stream inside the dialog so the player sees their hand
+  useEffect(() => {
+    if (!open) return;
+    const frame = requestAnimationFrame(() => {
+      const source = getVideo();
+      if (previewRef.current && source?.srcObject) {
+        previewRef.current.srcObject = source.srcObject;
+      }
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [open, getVideo]);
+
+  // Drive the prepare -> record -> next gesture sequence
+  useEffect(() => {
+    if (!open || (step.kind !== "prepare" && step.kind !== "record")) return;
+
+    const label = labels[step.index];
+    const duration = step.kind === "prepare" ? PREPARE_MS : RECORD_MS;
+    const startedAt = performance.now();
+    let running = true;
+    let frame = 0;
+
+    const finish = () => {
+      if (step.kind === "prepare") {
+        setStep({ kind: "record", index: step.index });
+      } else if (step.index + 1 < labels.length) {
+        setStep({ kind: "prepare", index: step.index + 1 });
+      } else {
+        setStep({ kind: "review", proposals: proposeThresholds(samplesRef.current, labels) });
+      }
+    };
+
+    const tick = async () => {
+      if (!running) return;
+      const now = performance.now();
+      setElapsed(Math.min(now - startedAt, duration));
+      if (now - startedAt >= duration) {
+        finish();
+        return;
+      }
+
+      const video = getVideo();
+      if (step.kind === "record" && video && video.readyState >= 2) {
+        const predictions = await predict(video);
+        if (running && predictions.length > 0) {
+          samplesRef.current.push({ label, predictions });
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => {
+      running = false;
+      cancelAnimationFrame(frame);
+    };
+  }, [open, step, labels, getVideo, predict]);
+
+  const applyProposals = (proposals: ThresholdProposal[]) => {
+    const thresholds = { ...settings.thresholds };
+    for (const p of proposals) thresholds[p.className] = Number(p.threshold.toFixed(2));
+    updateSettings({ thresholds });
+    onOpenChange(false);
+  };
+
+  const currentLabel =
+    step.kind === "prepare" || step.kind === "record" ? labels[step.index] : null;
+  const duration = step.kind === "prepare" ? PREPARE_MS : RECORD_MS;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-display text-primary">Calibração</DialogTitle>
+          <DialogDescription>
+            Segure cada gesto na frente da câmera por alguns segundos. Com as leituras
+            propomos um limite de confiança por gesto para você, sua luz e sua câmera.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center gap-4">
+          <video
+            ref={previewRef}
+            autoPlay
+            playsInline
+            muted
+            className={`w-48 h-48 rounded-xl object-cover ${mirror ? "transform -scale-x-100" : ""}`}
+          />
+
+          {step.kind === "intro" && (
+            <p className="text-sm text-muted-foreground text-center">
+              Vamos gravar {labels.length} gestos:{" "}
+              {labels.map(gestureName).join(", ")}.
+            </p>
+          )}
+
+          {currentLabel && (
+            <div className="w-full flex flex-col items-center gap-2">
+              <p className="font-display text-2xl">{gestureName(currentLabel)}</p>
+              <p className="text-sm text-muted-foreground">
+                {step.kind === "prepare" ? "Prepare o gesto..." : "Gravando, segure firme!"}
+              </p>
+              <Progress
+                value={(elapsed / duration) * 100}
+                className={`h-2 ${step.kind === "prepare" ? "opacity-50" : ""}`}
+              />
+            </div>
+          )}
+
+          {step.kind === "review" &&
+            (step.proposals.length === 0 ? (
+              <p className="text-sm text-destructive text-center">
+                Não houve leituras suficientes. Verifique a câmera e tente de novo.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Gesto</TableHead>
+                    <TableHead>Atual</TableHead>
+                    <TableHead>Proposto</TableHead>
+                    <TableHead>Acertos</TableHead>
+                    <TableHead>Falsos</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {step.proposals.map((p) => (
+                    <TableRow key={p.className}>
+                      <TableCell>{gestureName(p.className)}</TableCell>
+                      <TableCell>{percent(getThreshold(settings.thresholds, p.className))}</TableCell>
+                      <TableCell className="text-primary font-bold">{percent(p.threshold)}</TableCell>
+                      <TableCell>{percent(p.truePositiveRate)}</TableCell>
+                      <TableCell>{percent(p.falsePositiveRate)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ))}
+        </div>
+
+        <DialogFooter>
+          {step.kind === "intro" && (
+            <button
+              onClick={() => setStep({ kind: "prepare", index: 0 })}
+              disabled={labels.length === 0}
+              className="px-6 py-3 rounded-xl font-display bg-primary text-primary-foreground hover:opacity-90 transition-all active:scale-95 disabled:opacity-30"
+            >
+              COMEÇAR
+            </button>
+          )}
+          {step.kind === "review" && (
+            <>
+              <button
+                onClick={() => {
+                  samplesRef.current = [];
+                  setStep({ kind: "prepare", index: 0 });
+                }}
+                className="px-6 py-3 rounded-xl font-display bg-muted text-muted-foreground hover:bg-muted/80 transition-all active:scale-95"
+              >
+                REFAZER
+              </button>
+              {step.proposals.length > 0 && (
+                <button
+                  onClick={() => applyProposals(step.proposals)}
+                  className="px-6 py-3 rounded-xl font-display bg-primary text-primary-foreground hover:opacity-90 transition-all active:scale-95"
+                >
+                  APLICAR
+                </button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { useRules } from "@/hooks/useRules";
+import { useSettings } from "@/hooks/useSettings";
+import type { BackendName } from "@/lib/backends";
+import { getThreshold } from "@/lib/calibration";
+import { getDebugStats, subscribeDebugStats } from "@/lib/debugStats";
+import * as inference from "@/lib/inferenceClient";
+import type { EngineMemory } from "@/lib/inferenceEngine";
+import type { LabelMapping } from "@/lib/labelMapping";
+import { classThresholds } from "@/lib/smoothing";
+
+interface DebugOverlayProps {
+  backend: BackendName | null;
+  labelMapping: LabelMapping;
+}
+
+const MEMORY_POLL_MS = 1000;
+
+function formatBytes(bytes: number) {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+}
+
+/**
+ * Raw model output over the webcam: every class probability with the
+ * threshold a capture uses and the one that lets the live badge show the
+ * class (on the smoothed average) marked, plus inference latency, loop FPS, backend and tensor
+ * counts. Tensor counts that keep growing point to a leak.
+ */
+export default function DebugOverlay({ backend, labelMapping }: DebugOverlayProps) {
+  const { frame, fps } = useSyncExternalStore(subscribeDebugStats, getDebugStats);
+  const { settings } = useSettings();
+  const rules = useRules();
+  const [memory, setMemory] = useState<EngineMemory | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const poll = () =>
+      inference
+        .getMemory()
+        .then((m) => !cancelled && setMemory(m))
+        .catch((err) => console.warn("Could not read tf.memory():", err));
+    poll();
+    const timer = setInterval(poll, MEMORY_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  return (
+    <div className="absolute top-2 left-2 right-2 rounded-lg bg-background/80 p-2 font-mono text-[10px] leading-tight text-foreground pointer-events-none">
+      <div className="flex flex-col gap-1">
+        {frame?.predictions.map(({ className, probability }) => {
+          const threshold = getThreshold(settings.thresholds, className);
+          const badge = classThresholds(className, settings.smoothing, settings.thresholds).enter;
+          const gesture = labelMapping[className];
+          return (
+            <div key={className} className="flex items-center gap-1.5">
+              <span className="w-20 truncate">
+                {gesture ? rules.emoji(gesture) : "·"} {className}
+              </span>
+              <div className="relative h-2 flex-1 rounded-sm bg-muted">
+                <div
+                  className={`h-full rounded-sm ${
+                    probability >= threshold ? "bg-primary" : "bg-muted-foreground"
+                  }`}
+                  style={{ width: `${probability * 100}%` }}
+                />
+                <div
+                  className="absolute inset-y-[-2px] w-px bg-accent"
+                  style={{ left: `${threshold * 100}%` }}
+                />
+                <div
+                  className="absolute inset-y-[-2px] w-px bg-destructive"
+                  style={{ left: `${badge * 100}%` }}
+                />
+              </div>
+              <span className="w-8 text-right">{Math.round(probability * 100)}%</span>
+            </div>
+          );
+        })}
+      </div>
+      <div className="mt-1 flex gap-3 text-muted-foreground">
+        <span>
+          <span className="inline-block h-2 w-px bg-accent align-middle" /> limite da captura
+        </span>
+        <span>
+          <span className="inline-block h-2 w-px bg-destructive align-middle" /> limite do badge
+        </span>
+      </div>
+      <div className="mt-1.5 grid grid-cols-2 gap-x-2 text-muted-foreground">
+        <span>latência {frame ? `${frame.latencyMs.toFixed(0)} ms` : "—"}</span>
+        <span>{fps.toFixed(0)} fps</span>
+        <span>backend {backend ?? "—"}</span>
+        <span>
+          {memory ? `${memory.numTensors} tensores · ${formatBytes(memory.numBytes)}` : "—"}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getStrategy, STRATEGIES, type StrategyId } from "@/lib/strategies";
+
+interface DifficultySelectProps {
+  value: StrategyId;
+  disabled?: boolean;
+  onChange: (value: StrategyId) => void;
+}
+
+export default function DifficultySelect({ value, disabled, onChange }: DifficultySelectProps) {
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-bold text-muted-foreground uppercase tracking-wider">
+          Dificuldade
+        </span>
+        <Select
+          value={value}
+          disabled={disabled}
+          onValueChange={(v) => onChange(v as StrategyId)}
+        >
+          <SelectTrigger className="w-40 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {STRATEGIES.map((strategy) => (
+              <SelectItem key={strategy.id} value={strategy.id}>
+                {strategy.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-muted-foreground">{getStrategy(value).description}</p>
+    </div>
+  );
+}
@@ -1,13 +1,33 @@
 import { useRef, useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { BarChart3, Bug, Images, ScanEye } from "lucide-react";
 import WebcamView, { type WebcamHandle } from "./WebcamView";
+import ModelUploadPanel from "./ModelUploadPanel";
+import ModelLoadingProgress from "./ModelLoadingProgress";
+import SettingsSheet from "./SettingsSheet";
+import RoiOverlay from "./RoiOverlay";
+import DebugOverlay from "./DebugOverlay";
+import SaliencyOverlay from "./SaliencyOverlay";
+import ProfileSwitcher from "./ProfileSwitcher";
+import CalibrationWizard from "./CalibrationWizard";
+import LabelMappingDialog from "./LabelMappingDialog";
+import DifficultySelect from "./DifficultySelect";
+import MatchFormatSelect from "./MatchFormatSelect";
 import { useTeachableModel } from "@/hooks/useTeachableModel";
-import {
-  useGameLogic,
-  CHOICE_EMOJI,
-  CHOICE_LABEL,
-  type GamePhase,
-} from "@/hooks/useGameLogic";
+import { useGameLogic, type GamePhase } from "@/hooks/useGameLogic";
 import type { GameChoice } from "@/hooks/useTeachableModel";
+import { useProfiles } from "@/hooks/useProfiles";
+import { useRules } from "@/hooks/useRules";
+import { useSettings } from "@/hooks/useSettings";
+import { reportFrame } from "@/lib/debugStats";
+import type { CaptureReading } from "@/lib/roundHistory";
+import { createSmoothingState, stepSmoothing } from "@/lib/smoothing";
+import {
+  getMatchFormat,
+  getWinsNeeded,
+  type MatchFormat,
+  type MatchWinner,
+} from "@/lib/matchFormats";
 
 const RESULT_TEXT: Record<string, { text: string; color: string }> = {
   win: { text: "VOCÊ GANHOU! 🎉", color: "text-primary" },
@@ -15,10 +35,35 @@ const RESULT_TEXT: Record<string, { text: string; color: string }> = {
   draw: { text: "EMPATE! 🤝", color: "text-accent" },
 };
 
+const MATCH_RESULT_TEXT: Record<MatchWinner, { text: string; color: string }> = {
+  player: { text: "VOCÊ VENCEU A PARTIDA! 🏆", color: "text-primary" },
+  computer: { text: "A CPU VENCEU A PARTIDA! 🤖", color: "text-destructive" },
+  draw: { text: "PARTIDA EMPATADA! 🤝", color: "text-accent" },
+};
+
 export default function GameArena() {
   const webcamRef = useRef<WebcamHandle>(null);
-  const { loadModel, isLoading, isReady, error, getTopPrediction } =
-    useTeachableModel();
+  const { settings, updateSettings } = useSettings();
+  const rules = useRules();
+  const { activeProfile } = useProfiles();
+  const {
+    loadModel,
+    isLoading,
+    isReady,
+    error,
+    modelName,
+    modelId,
+    labels,
+    labelMapping,
+    unmappedLabels,
+    progress,
+    backend,
+    mirror,
+    defaultMirror,
+    predict,
+    explain,
+    toChoice,
+  } = useTeachableModel();
   const {
     phase,
     countdown,
@@ -27,30 +72,64 @@ export default function GameArena() {
     result,
     score,
     roundNumber,
+    matchNumber,
+    matchStartedAt,
+    matchWinner,
+    matches,
     startRound,
     resolveRound,
+    startNextMatch,
     resetGame,
-  } = useGameLogic();
+  } = useGameLogic({
+    strategy: settings.difficulty,
+    format: getMatchFormat(settings.matchFormat),
+    rules,
+  });
+  const matchFormat = getMatchFormat(settings.matchFormat);
+  // The last round stays on screen when it ends the match
+  const showRound = phase === "result" || phase === "match-over";
+  const isMidMatch = roundNumber > 0 && phase !== "match-over";
 
   const [liveChoice, setLiveChoice] = useState<GameChoice>("idle");
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [isMapping, setIsMapping] = useState(false);
+  const canPlay = isReady && unmappedLabels.length === 0;
   const predictionLoopRef = useRef<number | null>(null);
 
+  // Scores and the CPU's memory belong to the player; start over when they switch
+  useEffect(() => {
+    resetGame();
+  }, [activeProfile.id, resetGame]);
+
   // Load model on mount
   useEffect(() => {
     loadModel();
   }, [loadModel]);
 
-  // Continuous prediction loop for live feedback
+  // Continuous prediction loop for live feedback, smoothed over time so the
+  // badge doesn't flicker between gestures
   useEffect(() => {
     if (!isReady) return;
 
     let running = true;
+    let smoothing = createSmoothingState();
     const loop = async () => {
       if (!running) return;
       const video = webcamRef.current?.getVideo();
       if (video && video.readyState >= 2) {
-        const choice = await getTopPrediction(video);
-        setLiveChoice(choice);
+        const startedAt = performance.now();
+        const predictions = await predict(video);
+        const now = performance.now();
+        reportFrame({ predictions, latencyMs: now - startedAt, timestamp: now });
+        smoothing = stepSmoothing(
+          smoothing,
+          predictions,
+          performance.now(),
+          settings.smoothing,
+          "idle",
+          settings.thresholds
+        );
+        setLiveChoice(labelMapping[smoothing.current] ?? smoothing.current);
       }
       predictionLoopRef.current = requestAnimationFrame(loop);
     };
@@ -63,27 +142,34 @@ export default function GameArena() {
         cancelAnimationFrame(predictionLoopRef.current);
       }
     };
-  }, [isReady, getTopPrediction]);
+  }, [isReady, predict, settings.smoothing, settings.thresholds, labelMapping]);
 
   const handleCapture = useCallback(async () => {
     const video = webcamRef.current?.getVideo();
     if (!video) {
-      resolveRound("idle");
+      resolveRound("idle", { readings: [], modelId });
       return;
     }
 
-    // Take a few readings and pick the most common
-    const readings: GameChoice[] = [];
-    for (let i = 0; i < 5; i++) {
-      const choice = await getTopPrediction(video);
-      readings.push(choice);
-      await new Promise((r) => setTimeout(r, 100));
+    // Take a few readings and pick the most common. A failure must still
+    // resolve the round, or the game would stay stuck in "capture".
+    const readings: CaptureReading[] = [];
+    try {
+      for (let i = 0; i < 5; i++) {
+        const predictions = await predict(video);
+        readings.push({ gesture: toChoice(predictions), predictions });
+        await new Promise((r) => setTimeout(r, 100));
+      }
+    } catch (err) {
+      console.error("Capture failed:", err);
+      resolveRound("idle", { readings, modelId });
+      return;
     }
 
     // Most common non-idle choice, or idle
     const counts: Record<string, number> = {};
-    for (const r of readings) {
-      counts[r] = (counts[r] || 0) + 1;
+    for (const { gesture } of readings) {
+      counts[gesture] = (counts[gesture] || 0) + 1;
     }
     
     let best: GameChoice = "idle";
@@ -98,8 +184,10 @@ export default function GameArena() {
     // If no non-idle choice got at least 2 votes, use idle
     if (bestCount < 2) best = "idle";
 
-    resolveRound(best);
-  }, [getTopPrediction, resolveRound]);
+    resolveRound(best, { readings, modelId });
+  }, [predict, toChoice, modelId, resolveRound]);
+
+  const getVideo = useCallback(() => webcamRef.current?.getVideo() ?? null, []);
 
   const handlePlay = useCallback(() => {
     startRound(handleCapture);
@@ -110,7 +198,52 @@ export default function GameArena() {
   return (
     <div className="min-h-screen game-gradient flex flex-col items-center px-4 py-6 gap-6">
       {/* Header */}
-      <header className="text-center">
+      <header className="relative w-full max-w-4xl text-center">
+        <div className="absolute left-0 top-0 flex items-center gap-1">
+          <Link
+            to="/stats"
+            aria-label="Estatísticas"
+            className="p-2 rounded-lg text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+          >
+            <BarChart3 className="w-5 h-5" />
+          </Link>
+          <Link
+            to="/collect"
+            aria-label="Amostras"
+            className="p-2 rounded-lg text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+          >
+            <Images className="w-5 h-5" />
+          </Link>
+          <button
+            aria-label="Painel de depuração"
+            aria-pressed={settings.debugOverlay}
+            onClick={() => updateSettings({ debugOverlay: !settings.debugOverlay })}
+            className={`p-2 rounded-lg hover:bg-muted transition-colors ${
+              settings.debugOverlay ? "text-primary" : "text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            <Bug className="w-5 h-5" />
+          </button>
+          <button
+            aria-label="Mapa de calor"
+            aria-pressed={settings.saliencyOverlay}
+            onClick={() => updateSettings({ saliencyOverlay: !settings.saliencyOverlay })}
+            className={`p-2 rounded-lg hover:bg-muted transition-colors ${
+              settings.saliencyOverlay ? "text-primary" : "text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            <ScanEye className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="absolute right-0 top-0 flex items-center gap-1">
+          <ProfileSwitcher disabled={phase === "countdown" || phase === "capture"} />
+          <SettingsSheet
+            activeBackend={backend}
+            labels={labels}
+            modelMirror={defaultMirror}
+            roundInProgress={phase === "countdown" || phase === "capture"}
+          />
+        </div>
         <h1 className="text-4xl md:text-5xl font-display text-primary text-glow tracking-wide">
           PEDRA PAPEL TESOURA
         </h1>
@@ -126,6 +259,26 @@ export default function GameArena() {
         <ScoreCard label="CPU" value={score.computer} variant="cpu" />
       </div>
 
+      <MatchInfo
+        format={matchFormat}
+        matchNumber={matchNumber}
+        startedAt={matchStartedAt}
+        isOver={phase === "match-over"}
+      />
+
+      <div className="flex flex-col md:flex-row items-center gap-4">
+        <MatchFormatSelect
+          value={settings.matchFormat}
+          disabled={isMidMatch || phase === "countdown" || phase === "capture"}
+          onChange={(matchFormat) => updateSettings({ matchFormat })}
+        />
+        <DifficultySelect
+          value={settings.difficulty}
+          disabled={phase === "countdown" || phase === "capture"}
+          onChange={(difficulty) => updateSettings({ difficulty })}
+        />
+      </div>
+
       {/* Main game area */}
       <div className="flex flex-col md:flex-row items-center gap-8">
         {/* Player side */}
@@ -133,12 +286,34 @@ export default function GameArena() {
           <span className="text-sm font-bold text-muted-foreground uppercase tracking-widest">
             Você
           </span>
-          <WebcamView ref={webcamRef} />
+          <WebcamView ref={webcamRef} mirror={mirror}>
+            {settings.saliencyOverlay && isReady && (
+              <SaliencyOverlay
+                getVideo={getVideo}
+                explain={explain}
+                labels={labels}
+                labelMapping={labelMapping}
+                roi={settings.roi}
+                mirror={mirror}
+                paused={phase === "countdown" || phase === "capture"}
+              />
+            )}
+            {settings.roi && (
+              <RoiOverlay
+                roi={settings.roi}
+                locked={phase === "countdown" || phase === "capture"}
+                onChange={(roi) => updateSettings({ roi })}
+              />
+            )}
+            {settings.debugOverlay && isReady && (
+              <DebugOverlay backend={backend} labelMapping={labelMapping} />
+            )}
+          </WebcamView>
           {/* Live detection badge */}
-          {isReady && phase !== "result" && (
+          {isReady && !showRound && (
             <LiveBadge choice={liveChoice} />
           )}
-          {phase === "result" && (
+          {showRound && (
             <ChoiceBadge choice={playerChoice} />
           )}
         </div>
@@ -151,11 +326,16 @@ export default function GameArena() {
               ANALISANDO...
             </div>
           )}
-          {phase === "result" && result && (
+          {showRound && result && (
             <div
               className={`font-display text-2xl text-center animate-bounce-in ${RESULT_TEXT[result].color}`}
             >
               {RESULT_TEXT[result].text}
+              {rules.describe(playerChoice, computerChoice) && (
+                <p className="font-body text-sm text-muted-foreground mt-1">
+                  {rules.describe(playerChoice, computerChoice)}
+                </p>
+              )}
             </div>
           )}
           {phase === "waiting" && (
@@ -175,41 +355,75 @@ export default function GameArena() {
             {phase === "capture" && (
               <span className="text-8xl animate-pulse">🤔</span>
             )}
-            {phase === "result" && (
+            {showRound && (
               <span
                 className="text-8xl animate-bounce-in"
                 key={`cpu-${roundNumber}`}
               >
-                {CHOICE_EMOJI[computerChoice]}
+                {rules.emoji(computerChoice)}
               </span>
             )}
             {phase === "waiting" && (
               <span className="text-8xl opacity-40">🤖</span>
             )}
           </div>
-          {phase === "result" && <ChoiceBadge choice={computerChoice} />}
+          {showRound && <ChoiceBadge choice={computerChoice} />}
         </div>
       </div>
 
+      {/* Winner screen */}
+      {phase === "match-over" && matchWinner && (
+        <div className="flex flex-col items-center gap-2 px-8 py-5 rounded-2xl bg-card border-2 border-border animate-bounce-in">
+          <span className={`font-display text-3xl text-center ${MATCH_RESULT_TEXT[matchWinner].color}`}>
+            {MATCH_RESULT_TEXT[matchWinner].text}
+          </span>
+          <span className="font-display text-xl text-foreground">
+            {score.player} × {score.computer}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            Nesta sessão: você {matches.filter((m) => m.winner === "player").length} ×{" "}
+            {matches.filter((m) => m.winner === "computer").length} CPU
+          </span>
+        </div>
+      )}
+
       {/* Action buttons */}
       <div className="flex flex-col items-center gap-3 mt-2">
+        {isLoading && <ModelLoadingProgress progress={progress} />}
         {error && (
           <div className="text-center mb-2">
             <p className="text-destructive text-sm mb-2">Erro ao carregar modelo: {error}</p>
+            {/* A failed upload keeps the previous model, so only offer a retry when nothing is loaded */}
+            {!isReady && (
+              <button
+                onClick={() => loadModel()}
+                className="px-6 py-3 rounded-xl font-display text-lg bg-destructive text-destructive-foreground 
+                           hover:opacity-90 transition-all active:scale-95"
+              >
+                TENTAR NOVAMENTE
+              </button>
+            )}
+          </div>
+        )}
+        {isReady && unmappedLabels.length > 0 && (
+          <div className="text-center mb-2">
+            <p className="text-destructive text-sm mb-2">
+              O modelo tem classes sem gesto: {unmappedLabels.join(", ")}
+            </p>
             <button
-              onClick={loadModel}
+              onClick={() => setIsMapping(true)}
               className="px-6 py-3 rounded-xl font-display text-lg bg-destructive text-destructive-foreground 
                          hover:opacity-90 transition-all active:scale-95"
             >
-              TENTAR NOVAMENTE
+              MAPEAR RÓTULOS
             </button>
           </div>
         )}
         <div className="flex gap-4">
-          {!error && (phase === "waiting" || phase === "result") && (
+          {(isReady || !error) && (phase === "waiting" || phase === "result") && (
             <button
               onClick={handlePlay}
-              disabled={isLoading || !isReady}
+              disabled={isLoading || !canPlay}
               className="px-8 py-4 rounded-xl font-display text-xl bg-primary text-primary-foreground 
                          hover:opacity-90 transition-all glow-primary disabled:opacity-30 
                          disabled:cursor-not-allowed active:scale-95"
@@ -223,7 +437,16 @@ export default function GameArena() {
                 : "JOGAR DE NOVO! 🔄"}
             </button>
           )}
-          {roundNumber > 0 && phase !== "countdown" && phase !== "capture" && (
+          {phase === "match-over" && (
+            <button
+              onClick={startNextMatch}
+              className="px-8 py-4 rounded-xl font-display text-xl bg-primary text-primary-foreground 
+                         hover:opacity-90 transition-all glow-primary active:scale-95"
+            >
+              PRÓXIMA PARTIDA ▶️
+            </button>
+          )}
+          {(roundNumber > 0 || matches.length > 0) && phase !== "countdown" && phase !== "capture" && (
             <button
               onClick={resetGame}
               className="px-6 py-4 rounded-xl font-display text-lg bg-muted text-muted-foreground 
@@ -232,9 +455,47 @@ export default function GameArena() {
               ZERAR
             </button>
           )}
+          {isReady && (phase === "waiting" || phase === "result" || phase === "match-over") && (
+            <button
+              onClick={() => setIsCalibrating(true)}
+              className="px-6 py-4 rounded-xl font-display text-lg bg-muted text-muted-foreground 
+                         hover:bg-muted/80 transition-all active:scale-95"
+            >
+              CALIBRAR
+            </button>
+          )}
+          {isReady && (phase === "waiting" || phase === "result" || phase === "match-over") && (
+            <button
+              onClick={() => setIsMapping(true)}
+              className="px-6 py-4 rounded-xl font-display text-lg bg-muted text-muted-foreground 
+                         hover:bg-muted/80 transition-all active:scale-95"
+            >
+              RÓTULOS
+            </button>
+          )}
         </div>
       </div>
 
+      {/* Custom model upload */}
+      {(phase === "waiting" || phase === "result" || phase === "match-over") && (
+        <ModelUploadPanel
+          modelName={modelName}
+          disabled={isLoading}
+          onLoad={loadModel}
+        />
+      )}
+
+      <CalibrationWizard
+        open={isCalibrating}
+        onOpenChange={setIsCalibrating}
+        labels={labels}
+        getVideo={getVideo}
+        mirror={mirror}
+        predict={predict}
+      />
+
+      <LabelMappingDialog open={isMapping} onOpenChange={setIsMapping} labels={labels} />
+
       {/* Instructions */}
       {phase === "waiting" && roundNumber === 0 && isReady && (
         <div className="max-w-md text-center text-muted-foreground text-sm mt-2 space-y-1">
@@ -280,6 +541,46 @@ function ScoreCard({
   );
 }
 
+function MatchInfo({
+  format,
+  matchNumber,
+  startedAt,
+  isOver,
+}: {
+  format: MatchFormat;
+  matchNumber: number;
+  startedAt: number | null;
+  isOver: boolean;
+}) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (format.kind !== "blitz" || startedAt === null || isOver) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [format.kind, startedAt, isOver]);
+
+  if (format.kind === "endless") return null;
+
+  const winsNeeded = getWinsNeeded(format);
+  let detail = "";
+  if (winsNeeded !== null) {
+    detail = `${winsNeeded} vitórias para vencer`;
+  } else if (format.kind === "fixed-rounds") {
+    detail = `${format.rounds} rodadas`;
+  } else if (format.kind === "blitz") {
+    const elapsed = startedAt === null ? 0 : now - startedAt;
+    const left = Math.max(0, Math.ceil((format.durationMs - elapsed) / 1000));
+    detail = `⏱️ ${Math.floor(left / 60)}:${String(left % 60).padStart(2, "0")}`;
+  }
+
+  return (
+    <div className="text-xs font-bold text-muted-foreground uppercase tracking-wider">
+      Partida {matchNumber} · {detail}
+    </div>
+  );
+}
+
 function CountdownDisplay({ count }: { count: number }) {
   return (
     <div
@@ -292,23 +593,25 @@ function CountdownDisplay({ count }: { count: number }) {
 }
 
 function ChoiceBadge({ choice }: { choice: GameChoice }) {
+  const rules = useRules();
   return (
     <div className="flex items-center gap-2 px-4 py-2 rounded-lg bg-card border border-border">
-      <span className="text-2xl">{CHOICE_EMOJI[choice]}</span>
+      <span className="text-2xl">{rules.emoji(choice)}</span>
       <span className="font-bold text-foreground text-sm">
-        {CHOICE_LABEL[choice]}
+        {rules.label(choice)}
       </span>
     </div>
   );
 }
 
 function LiveBadge({ choice }: { choice: GameChoice }) {
+  const rules = useRules();
   return (
     <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-muted/50 border border-border/50">
       <span className="w-2 h-2 rounded-full bg-primary animate-pulse" />
-      <span className="text-lg">{CHOICE_EMOJI[choice]}</span>
+      <span className="text-lg">{rules.emoji(choice)}</span>
       <span className="text-xs text-muted-foreground">
-        {CHOICE_LABEL[choice]}
+        {rules.label(choice)}
       </span>
     </div>
   );
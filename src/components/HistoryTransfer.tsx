@@ -0,0 +1,78 @@
+import { useRef, useState } from "react";
+import { useProfiles } from "@/hooks/useProfiles";
+import { downloadBlob } from "@/lib/download";
+import { exportRoundsCsv, exportRoundsJson, importRounds } from "@/lib/historyExport";
+import type { StoredRound } from "@/lib/roundHistory";
+
+interface HistoryTransferProps {
+  rounds: StoredRound[];
+}
+
+function download(text: string, filename: string, type: string) {
+  downloadBlob(new Blob([text], { type }), filename);
+}
+
+export default function HistoryTransfer({ rounds }: HistoryTransferProps) {
+  const { activeProfile } = useProfiles();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const { added, skipped } = await importRounds(await file.text(), activeProfile.id);
+      setMessage({
+        text: `${added} rodadas importadas${skipped > 0 ? `, ${skipped} já existiam` : ""}.`,
+        isError: false,
+      });
+    } catch (err) {
+      console.error("Failed to import history:", err);
+      setMessage({
+        text: `Não foi possível importar: ${err instanceof Error ? err.message : "arquivo inválido"}`,
+        isError: true,
+      });
+    } finally {
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex flex-wrap justify-center gap-3">
+        <button
+          onClick={() => download(exportRoundsJson(rounds), `rps-historico-${stamp}.json`, "application/json")}
+          disabled={rounds.length === 0}
+          className="px-4 py-2 rounded-xl font-display text-sm bg-muted text-muted-foreground hover:bg-muted/80 transition-all active:scale-95 disabled:opacity-30"
+        >
+          EXPORTAR JSON
+        </button>
+        <button
+          onClick={() => download(exportRoundsCsv(rounds), `rps-historico-${stamp}.csv`, "text/csv")}
+          disabled={rounds.length === 0}
+          className="px-4 py-2 rounded-xl font-display text-sm bg-muted text-muted-foreground hover:bg-muted/80 transition-all active:scale-95 disabled:opacity-30"
+        >
+          EXPORTAR CSV
+        </button>
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="px-4 py-2 rounded-xl font-display text-sm bg-muted text-muted-foreground hover:bg-muted/80 transition-all active:scale-95"
+        >
+          IMPORTAR
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={(e) => handleImport(e.target.files?.[0])}
+        />
+      </div>
+      {message && (
+        <p className={`text-xs ${message.isError ? "text-destructive" : "text-muted-foreground"}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useLabelMapping } from "@/hooks/useLabelMapping";
+import { useRules } from "@/hooks/useRules";
+import { useSettings } from "@/hooks/useSettings";
+import { IDLE } from "@/lib/rules";
+
+interface LabelMappingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  labels: string[];
+}
+
+export default function LabelMappingDialog({ open, onOpenChange, labels }: LabelMappingDialogProps) {
+  const { settings, updateSettings } = useSettings();
+  const rules = useRules();
+  const { mapping, unmapped, missing } = useLabelMapping(labels);
+  const options = [IDLE.id, ...rules.choices];
+
+  const setGesture = (label: string, gesture: string) =>
+    updateSettings({ labelMapping: { ...settings.labelMapping, [label]: gesture } });
+
+  // Only this model's labels go back to automatic; other models keep theirs
+  const resetMapping = () => {
+    const labelMapping = { ...settings.labelMapping };
+    for (const label of labels) delete labelMapping[label];
+    updateSettings({ labelMapping });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-display text-primary">Rótulos do modelo</DialogTitle>
+          <DialogDescription>
+            Diga qual gesto do jogo cada classe do modelo representa. Nomes conhecidos como
+            "scissors" ou "Pedra" são reconhecidos sozinhos.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Classe do modelo</TableHead>
+              <TableHead>Gesto</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {labels.map((label) => (
+              <TableRow key={label}>
+                <TableCell className="font-mono text-xs">{label}</TableCell>
+                <TableCell>
+                  <Select value={mapping[label] ?? ""} onValueChange={(v) => setGesture(label, v)}>
+                    <SelectTrigger
+                      className={`w-40 h-8 ${mapping[label] ? "" : "border-destructive"}`}
+                    >
+                      <SelectValue placeholder="Escolha..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {options.map((gesture) => (
+                        <SelectItem key={gesture} value={gesture}>
+                          {rules.emoji(gesture)} {rules.label(gesture)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {settings.labelMapping[label] === mapping[label] ? "manual" : mapping[label] ? "auto" : ""}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {unmapped.length > 0 && (
+          <p className="text-sm text-destructive">
+            Sem gesto: {unmapped.join(", ")}. O jogo só começa quando todas as classes tiverem um gesto.
+          </p>
+        )}
+        {missing.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Nenhuma classe para {missing.map(rules.label).join(", ")}: você não vai conseguir
+            mostrar esses gestos.
+          </p>
+        )}
+
+        <DialogFooter>
+          <button
+            onClick={resetMapping}
+            className="px-6 py-3 rounded-xl font-display bg-muted text-muted-foreground hover:bg-muted/80 transition-all active:scale-95"
+          >
+            AUTOMÁTICO
+          </button>
+          <button
+            onClick={() => onOpenChange(false)}
+            className="px-6 py-3 rounded-xl font-display bg-primary text-primary-foreground hover:opacity-90 transition-all active:scale-95"
+          >
+            PRONTO
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
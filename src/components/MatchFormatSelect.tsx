@@ -0,0 +1,40 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MATCH_FORMATS, type MatchFormatId } from "@/lib/matchFormats";
+
+interface MatchFormatSelectProps {
+  value: MatchFormatId;
+  disabled?: boolean;
+  onChange: (value: MatchFormatId) => void;
+}
+
+export default function MatchFormatSelect({ value, disabled, onChange }: MatchFormatSelectProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs font-bold text-muted-foreground uppercase tracking-wider">
+        Partida
+      </span>
+      <Select
+        value={value}
+        disabled={disabled}
+        onValueChange={(v) => onChange(v as MatchFormatId)}
+      >
+        <SelectTrigger className="w-40 h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {MATCH_FORMATS.map((format) => (
+            <SelectItem key={format.id} value={format.id}>
+              {format.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
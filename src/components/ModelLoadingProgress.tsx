@@ -0,0 +1,42 @@
+import { Progress } from "@/components/ui/progress";
+import type { LoadProgress, LoadStage } from "@/lib/modelArchive";
+
+// Share of the bar each stage occupies, in loading order.
+const STAGES: { stage: LoadStage; label: string; from: number; to: number }[] = [
+  { stage: "checking-cache", label: "Verificando cache", from: 0, to: 5 },
+  { stage: "downloading", label: "Baixando modelo", from: 5, to: 55 },
+  { stage: "unzipping", label: "Descompactando", from: 55, to: 70 },
+  { stage: "parsing", label: "Lendo a topologia", from: 70, to: 80 },
+  { stage: "uploading", label: "Enviando pesos", from: 80, to: 90 },
+  { stage: "warming-up", label: "Aquecendo", from: 90, to: 100 },
+];
+
+function formatMB(bytes: number) {
+  return (bytes / 1024 / 1024).toFixed(1);
+}
+
+export default function ModelLoadingProgress({ progress }: { progress: LoadProgress | null }) {
+  const current = STAGES.find((s) => s.stage === progress?.stage) ?? STAGES[0];
+  const fraction =
+    progress?.loaded !== undefined && progress.total
+      ? Math.min(progress.loaded / progress.total, 1)
+      : 0;
+  const value = current.from + (current.to - current.from) * fraction;
+
+  return (
+    <div className="w-full max-w-xs flex flex-col gap-1">
+      <Progress value={value} className="h-2" />
+      <p className="text-xs text-muted-foreground text-center">
+        {current.label}
+        {progress?.stage === "downloading" && progress.loaded !== undefined && (
+          <>
+            {" "}
+            {formatMB(progress.loaded)}
+            {progress.total ? ` / ${formatMB(progress.total)}` : ""} MB
+          </>
+        )}
+        ...
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useRef, useState, type DragEvent } from "react";
+import type { ModelSource } from "@/lib/modelArchive";
+
+interface ModelUploadPanelProps {
+  modelName: string | null;
+  disabled?: boolean;
+  onLoad: (source: ModelSource) => void;
+}
+
+export default function ModelUploadPanel({
+  modelName,
+  disabled,
+  onLoad,
+}: ModelUploadPanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleFiles = (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0 || disabled) return;
+    onLoad(Array.from(fileList));
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      onClick={() => !disabled && inputRef.current?.click()}
+      className={`w-full max-w-md px-4 py-3 rounded-xl border-2 border-dashed text-center cursor-pointer transition-colors ${
+        isDragging ? "border-primary bg-primary/5" : "border-border bg-card/50"
+      } ${disabled ? "opacity-50 cursor-not-allowed" : ""}`}
+    >
+      <p className="text-sm font-bold text-foreground">Carregar modelo</p>
+      <p className="text-xs text-muted-foreground mt-1">
+        Arraste o .zip exportado do Teachable Machine ou os arquivos{" "}
+        <code>model.json</code>, <code>metadata.json</code> e{" "}
+        <code>weights.bin</code>
+      </p>
+      {modelName && (
+        <p className="text-xs text-muted-foreground mt-2">
+          Modelo ativo: <span className="text-primary">{modelName}</span>
+        </p>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept=".zip,.json,.bin"
+        className="hidden"
+        onChange={(e) => {
+          handleFiles(e.target.files);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useEffect, useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { useProfiles } from "@/hooks/useProfiles";
+import { AVATARS, type Profile } from "@/lib/profiles";
+
+interface ProfileSwitcherProps {
+  disabled?: boolean;
+}
+
+type Editing = { kind: "create" } | { kind: "edit"; profile: Profile } | null;
+
+export default function ProfileSwitcher({ disabled }: ProfileSwitcherProps) {
+  const { profiles, activeProfile, switchProfile, createProfile, updateProfile, deleteProfile } =
+    useProfiles();
+  const [editing, setEditing] = useState<Editing>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild disabled={disabled}>
+          <button
+            aria-label="Jogador"
+            className="flex items-center gap-2 p-1 pr-2 rounded-lg text-muted-foreground hover:text-foreground hover:bg-muted transition-colors disabled:opacity-50"
+          >
+            <ProfileAvatar profile={activeProfile} />
+            <span className="hidden md:inline text-sm font-bold max-w-[8rem] truncate">
+              {activeProfile.name}
+            </span>
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>Jogadores</DropdownMenuLabel>
+          <DropdownMenuRadioGroup value={activeProfile.id} onValueChange={switchProfile}>
+            {profiles.map((profile) => (
+              <DropdownMenuRadioItem key={profile.id} value={profile.id}>
+                <span className="mr-2">{profile.avatar}</span>
+                <span className="truncate">{profile.name}</span>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setEditing({ kind: "create" })}>
+            Novo jogador
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setEditing({ kind: "edit", profile: activeProfile })}>
+            Editar {activeProfile.name}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={profiles.length <= 1}
+            onSelect={() => setIsDeleting(true)}
+            className="text-destructive"
+          >
+            Excluir {activeProfile.name}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ProfileDialog
+        editing={editing}
+        onClose={() => setEditing(null)}
+        onSave={(name, avatar) => {
+          if (editing?.kind === "edit") updateProfile(editing.profile.id, { name, avatar });
+          else createProfile(name, avatar);
+          setEditing(null);
+        }}
+      />
+
+      <AlertDialog open={isDeleting} onOpenChange={setIsDeleting}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir {activeProfile.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              O histórico de rodadas, a calibração e as preferências deste jogador serão apagados.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteProfile(activeProfile.id)}>
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+function ProfileAvatar({ profile }: { profile: Profile }) {
+  return (
+    <Avatar className="h-8 w-8">
+      <AvatarFallback className="bg-muted text-lg">{profile.avatar}</AvatarFallback>
+    </Avatar>
+  );
+}
+
+function ProfileDialog({
+  editing,
+  onClose,
+  onSave,
+}: {
+  editing: Editing;
+  onClose: () => void;
+  onSave: (name: string, avatar: string) => void;
+}) {
+  const [name, setName] = useState("");
+  const [avatar, setAvatar] = useState(AVATARS[0]);
+
+  // Fill the form each time the dialog opens
+  useEffect(() => {
+    if (editing?.kind === "edit") {
+      setName(editing.profile.name);
+      setAvatar(editing.profile.avatar);
+    } else if (editing) {
+      setName("");
+      setAvatar(AVATARS[Math.floor(Math.random() * AVATARS.length)]);
+    }
+  }, [editing]);
+
+  return (
+    <Dialog open={editing !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-display text-primary">
+            {editing?.kind === "edit" ? "Editar jogador" : "Novo jogador"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form
+          id="profile-form"
+          className="flex flex-col gap-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (name.trim()) onSave(name, avatar);
+          }}
+        >
+          <Input
+            autoFocus
+            value={name}
+            maxLength={24}
+            placeholder="Nome"
+            onChange={(e) => setName(e.target.value)}
+          />
+          <div className="grid grid-cols-6 gap-2">
+            {AVATARS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setAvatar(option)}
+                className={`text-2xl rounded-lg py-1 transition-colors ${
+                  option === avatar ? "bg-primary/20 ring-2 ring-primary" : "hover:bg-muted"
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </form>
+
+        <DialogFooter>
+          <button
+            type="submit"
+            form="profile-form"
+            disabled={!name.trim()}
+            className="px-6 py-3 rounded-xl font-display bg-primary text-primary-foreground hover:opacity-90 transition-all active:scale-95 disabled:opacity-30"
+          >
+            SALVAR
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import { moveRoi, resizeRoi, type Roi } from "@/lib/roi";
+
+interface RoiOverlayProps {
+  roi: Roi;
+  /** Locks the box in place, e.g. while a round is being captured. */
+  locked?: boolean;
+  onChange: (roi: Roi) => void;
+}
+
+type Drag = {
+  mode: "move" | "resize";
+  startX: number;
+  startY: number;
+  start: Roi;
+};
+
+/**
+ * Guide box over the webcam marking where the hand goes. Only this area
+ * reaches the model; drag it to move, or the corner handle to resize.
+ */
+export default function RoiOverlay({ roi, locked, onChange }: RoiOverlayProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  // Follows the pointer while dragging; saved to the settings on release
+  const [draft, setDraft] = useState(roi);
+
+  useEffect(() => {
+    if (!dragRef.current) setDraft(roi);
+  }, [roi]);
+
+  const startDrag = (mode: Drag["mode"]) => (e: PointerEvent<HTMLDivElement>) => {
+    if (locked) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, start: draft };
+  };
+
+  const onPointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const container = containerRef.current;
+    if (!drag || !container) return;
+    const { width, height } = container.getBoundingClientRect();
+    const dx = (e.clientX - drag.startX) / width;
+    const dy = (e.clientY - drag.startY) / height;
+    setDraft(drag.mode === "move" ? moveRoi(drag.start, dx, dy) : resizeRoi(drag.start, dx, dy));
+  };
+
+  const endDrag = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    onChange(draft);
+  };
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 overflow-hidden pointer-events-none">
+      <div
+        onPointerDown={startDrag("move")}
+        onPointerMove={onPointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        className={`absolute border-2 border-dashed border-primary rounded-lg shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] touch-none ${
+          locked ? "" : "pointer-events-auto cursor-move"
+        }`}
+        style={{
+          left: `${draft.x * 100}%`,
+          top: `${draft.y * 100}%`,
+          width: `${draft.size * 100}%`,
+          height: `${draft.size * 100}%`,
+        }}
+      >
+        <span className="absolute top-1 left-1/2 -translate-x-1/2 whitespace-nowrap text-[10px] font-bold uppercase tracking-wider text-primary/90">
+          Mão aqui
+        </span>
+        {!locked && (
+          <div
+            aria-label="Redimensionar área"
+            onPointerDown={startDrag("resize")}
+            onPointerMove={onPointerMove}
+            onPointerUp={endDrag}
+            onPointerCancel={endDrag}
+            className="absolute -right-1.5 -bottom-1.5 w-4 h-4 rounded-sm bg-primary cursor-nwse-resize"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useRef, useState } from "react";
+import { Camera } from "lucide-react";
+import { useRules } from "@/hooks/useRules";
+import { downloadBlob } from "@/lib/download";
+import type { LabelMapping } from "@/lib/labelMapping";
+import type { Roi } from "@/lib/roi";
+import type { Saliency } from "@/lib/saliency";
+
+interface SaliencyOverlayProps {
+  getVideo: () => HTMLVideoElement | null;
+  explain: (video: HTMLVideoElement) => Promise<Saliency | null>;
+  labels: string[];
+  labelMapping: LabelMapping;
+  roi: Roi | null;
+  mirror: boolean;
+  /** Stops computing while a round is captured, so predictions aren't delayed. */
+  paused?: boolean;
+}
+
+// Gradients cost a few forward passes; twice a second is plenty to follow the hand
+const SALIENCY_INTERVAL_MS = 500;
+
+const FULL_FRAME: Roi = { x: 0, y: 0, size: 1 };
+
+// Blue (cold) to red (hot), more opaque where the model looks hardest
+function heatColor(value: number) {
+  const hue = Math.round((1 - value) * 240);
+  return `hsla(${hue}, 100%, 50%, ${(0.15 + value * 0.55).toFixed(2)})`;
+}
+
+function drawHeatmap(canvas: HTMLCanvasElement, saliency: Saliency) {
+  const { gridSize, values } = saliency;
+  canvas.width = gridSize;
+  canvas.height = gridSize;
+  const ctx = canvas.getContext("2d");
+  ctx.clearRect(0, 0, gridSize, gridSize);
+  values.forEach((value, i) => {
+    ctx.fillStyle = heatColor(value);
+    ctx.fillRect(i % gridSize, Math.floor(i / gridSize), 1, 1);
+  });
+}
+
+/** The frame as shown on screen with the heatmap on top, saved as a PNG. */
+function saveSnapshot(
+  video: HTMLVideoElement,
+  heatmap: HTMLCanvasElement,
+  box: Roi,
+  mirror: boolean,
+  caption: string
+) {
+  const size = Math.min(video.videoWidth, video.videoHeight);
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d");
+
+  ctx.save();
+  if (mirror) {
+    ctx.translate(size, 0);
+    ctx.scale(-1, 1);
+  }
+  const left = (video.videoWidth - size) / 2;
+  const top = (video.videoHeight - size) / 2;
+  ctx.drawImage(video, left, top, size, size, 0, 0, size, size);
+  ctx.restore();
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(heatmap, box.x * size, box.y * size, box.size * size, box.size * size);
+  ctx.font = `bold ${Math.round(size / 20)}px sans-serif`;
+  ctx.fillStyle = "#ffffff";
+  ctx.fillText(caption, size / 40, size - size / 40);
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  canvas.toBlob((blob) => blob && downloadBlob(blob, `saliencia-${stamp}.png`), "image/png");
+}
+
+/**
+ * Explainability mode: a heatmap of where the model looks for the class it
+ * currently picks, over the area the model actually sees (the hand area
+ * when one is set).
+ */
+export default function SaliencyOverlay({
+  getVideo,
+  explain,
+  labels,
+  labelMapping,
+  roi,
+  mirror,
+  paused,
+}: SaliencyOverlayProps) {
+  const rules = useRules();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [saliency, setSaliency] = useState<Saliency | null>(null);
+  const box = roi ?? FULL_FRAME;
+
+  useEffect(() => {
+    if (paused) return;
+
+    let running = true;
+    let timer: ReturnType<typeof setTimeout>;
+    const loop = async () => {
+      const video = getVideo();
+      if (video && video.readyState >= 2) {
+        try {
+          const next = await explain(video);
+          if (running && next && canvasRef.current) {
+            drawHeatmap(canvasRef.current, next);
+            setSaliency(next);
+          }
+        } catch (err) {
+          console.error("Saliency error:", err);
+        }
+      }
+      if (running) timer = setTimeout(loop, SALIENCY_INTERVAL_MS);
+    };
+    loop();
+
+    return () => {
+      running = false;
+      clearTimeout(timer);
+    };
+  }, [paused, getVideo, explain]);
+
+  const label = saliency ? labels[saliency.classIndex] : undefined;
+  const gesture = label ? labelMapping[label] ?? label : undefined;
+  const confidence = saliency ? Math.round(saliency.probability * 100) : 0;
+  const caption = gesture ? `${rules.emoji(gesture)} ${rules.label(gesture)} ${confidence}%` : "";
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      <canvas
+        ref={canvasRef}
+        className="absolute"
+        style={{
+          left: `${box.x * 100}%`,
+          top: `${box.y * 100}%`,
+          width: `${box.size * 100}%`,
+          height: `${box.size * 100}%`,
+        }}
+      />
+      {caption && (
+        <span className="absolute bottom-2 right-12 rounded-md bg-background/80 px-2 py-0.5 text-xs font-bold">
+          {caption}
+        </span>
+      )}
+      <button
+        aria-label="Salvar imagem com mapa de calor"
+        disabled={!saliency}
+        onClick={() => {
+          const video = getVideo();
+          if (video && canvasRef.current) {
+            saveSnapshot(video, canvasRef.current, box, mirror, caption);
+          }
+        }}
+        className="absolute bottom-1.5 right-1.5 p-2 rounded-lg bg-background/80 text-foreground pointer-events-auto hover:bg-background transition-colors disabled:opacity-50"
+      >
+        <Camera className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import type { Sample } from "@/lib/samples";
+
+interface SampleGridProps {
+  samples: Sample[];
+  onDelete: (id: string) => void;
+}
+
+/** Thumbnails of recorded samples, newest first, each with a delete button. */
+export default function SampleGrid({ samples, onDelete }: SampleGridProps) {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  // One object URL per image, released when the samples change
+  useEffect(() => {
+    const next: Record<string, string> = {};
+    for (const sample of samples) next[sample.id] = URL.createObjectURL(sample.image);
+    setUrls(next);
+    return () => Object.values(next).forEach((url) => URL.revokeObjectURL(url));
+  }, [samples]);
+
+  if (samples.length === 0) {
+    return <p className="text-muted-foreground text-sm">Nenhuma amostra ainda.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 gap-2">
+      {[...samples].reverse().map((sample) => (
+        <div key={sample.id} className="relative group aspect-square">
+          {urls[sample.id] && (
+            <img
+              src={urls[sample.id]}
+              alt=""
+              className="w-full h-full rounded-lg object-cover border-2 border-border"
+            />
+          )}
+          <button
+            aria-label="Excluir amostra"
+            onClick={() => onDelete(sample.id)}
+            className="absolute top-1 right-1 p-0.5 rounded-md bg-background/80 text-destructive opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
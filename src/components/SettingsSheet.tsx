@@ -0,0 +1,483 @@
+import { useRef, useState, type ReactNode } from "react";
+import { Settings as SettingsIcon } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { useCameraDevices } from "@/hooks/useCameraDevices";
+import { useInputSource } from "@/hooks/useInputSource";
+import { useLabelMapping } from "@/hooks/useLabelMapping";
+import { useRules } from "@/hooks/useRules";
+import { useSettings } from "@/hooks/useSettings";
+import type { BackendName } from "@/lib/backends";
+import { getThreshold } from "@/lib/calibration";
+import {
+  CAMERA_FRAME_RATES,
+  CAMERA_RESOLUTIONS,
+  resolveDeviceId,
+  type CameraResolutionId,
+  type CameraSettings,
+} from "@/lib/camera";
+import {
+  CAMERA_INPUT,
+  selectImageFiles,
+  selectVideoFile,
+  setInputSource,
+} from "@/lib/inputSources";
+import { DEFAULT_ROI } from "@/lib/roi";
+import { RULE_SETS, type RuleSetId } from "@/lib/rules";
+import type { BackendPreference, MirrorPreference } from "@/lib/settings";
+import type { SmoothingConfig } from "@/lib/smoothing";
+
+const BACKEND_OPTIONS: { value: BackendPreference; label: string }[] = [
+  { value: "auto", label: "Automático" },
+  { value: "webgl", label: "WebGL (GPU)" },
+  { value: "wasm", label: "WebAssembly" },
+  { value: "cpu", label: "CPU" },
+];
+
+const MIRROR_OPTIONS: { value: MirrorPreference; label: string }[] = [
+  { value: "auto", label: "Automático" },
+  { value: "on", label: "Espelhar" },
+  { value: "off", label: "Não espelhar" },
+];
+
+// Select items can't have an empty value, so the default camera gets a name
+const DEFAULT_DEVICE = "default";
+
+interface SettingsSheetProps {
+  activeBackend: BackendName | null;
+  labels: string[];
+  /** Whether the loaded model expects mirrored frames. */
+  modelMirror: boolean;
+  /** Locks the rules, which decide how the labels being read map to gestures. */
+  roundInProgress?: boolean;
+}
+
+export default function SettingsSheet({
+  activeBackend,
+  labels,
+  modelMirror,
+  roundInProgress,
+}: SettingsSheetProps) {
+  const { settings, updateSettings } = useSettings();
+  const rules = useRules();
+  const { mapping } = useLabelMapping(labels);
+  const cameras = useCameraDevices() ?? [];
+  const source = useInputSource();
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const selectSource = (select: () => void) => {
+    setSourceError(null);
+    select();
+  };
+  const deviceId = resolveDeviceId(cameras, settings.camera.deviceId);
+  const updateSmoothing = (patch: Partial<SmoothingConfig>) =>
+    updateSettings({ smoothing: { ...settings.smoothing, ...patch } });
+  const updateCamera = (patch: Partial<CameraSettings>) =>
+    updateSettings({ camera: { ...settings.camera, ...patch } });
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <button
+          aria-label="Configurações"
+          className="p-2 rounded-lg text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+        >
+          <SettingsIcon className="w-5 h-5" />
+        </button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="font-display text-primary">Configurações</SheetTitle>
+          <SheetDescription>Ajustes salvos neste navegador.</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex flex-col gap-6 mt-6">
+          <SettingsSection
+            title="Regras"
+            hint={`${rules.ruleSet.description} Gestos fora do jogo contam como Nada, então o modelo precisa reconhecer todos eles.`}
+          >
+            <Select
+              disabled={roundInProgress}
+              value={settings.ruleSet}
+              onValueChange={(value) => updateSettings({ ruleSet: value as RuleSetId })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RULE_SETS.map((ruleSet) => (
+                  <SelectItem key={ruleSet.id} value={ruleSet.id}>
+                    {ruleSet.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ul className="text-xs text-muted-foreground grid grid-cols-2 gap-x-4 gap-y-0.5">
+              {rules.ruleSet.beats.map((rule) => (
+                <li key={`${rule.winner}-${rule.loser}`}>
+                  {rules.emoji(rule.winner)} {rules.describe(rule.winner, rule.loser)}
+                </li>
+              ))}
+            </ul>
+          </SettingsSection>
+
+          <SettingsSection
+            title="Fonte de imagem"
+            hint="Para testes e demonstrações: um vídeo ou uma pasta de imagens (em loop, uma por segundo) entram no lugar da câmera, com a mesma área da mão e o mesmo espelhamento. Não fica salvo."
+          >
+            <div className="grid grid-cols-2 gap-2">
+              <SourceButton
+                active={source.kind === "camera"}
+                onClick={() => selectSource(() => setInputSource(CAMERA_INPUT))}
+              >
+                Câmera
+              </SourceButton>
+              <SourceButton
+                active={source.kind === "synthetic"}
+                onClick={() => selectSource(() => setInputSource({ kind: "synthetic" }))}
+              >
+                Sintética
+              </SourceButton>
+              <SourceButton
+                active={source.kind === "video"}
+                onClick={() => videoInputRef.current?.click()}
+              >
+                Vídeo…
+              </SourceButton>
+              <SourceButton
+                active={source.kind === "images"}
+                onClick={() => folderInputRef.current?.click()}
+              >
+                Pasta de imagens…
+              </SourceButton>
+            </div>
+            {(source.kind === "video" || source.kind === "images") && (
+              <p className="text-xs text-foreground truncate">{source.name}</p>
+            )}
+            {sourceError && <p className="text-xs text-destructive">{sourceError}</p>}
+            <input
+              ref={videoInputRef}
+              type="file"
+              accept="video/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) selectSource(() => selectVideoFile(file));
+                e.target.value = "";
+              }}
+            />
+            <input
+              ref={folderInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              // Not in React's typings; lets the picker choose a whole folder
+              {...{ webkitdirectory: "" }}
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []);
+                e.target.value = "";
+                try {
+                  selectSource(() => selectImageFiles(files));
+                } catch {
+                  setSourceError("A pasta escolhida não tem imagens; a fonte não mudou.");
+                }
+              }}
+            />
+          </SettingsSection>
+
+          <SettingsSection
+            title="Câmera"
+            hint="Trocar de câmera não recarrega o modelo. Se a câmera escolhida for desconectada, a padrão é usada até ela voltar. Resolução e quadros por segundo são aproximados ao que a câmera suporta."
+          >
+            <Select
+              value={deviceId ?? DEFAULT_DEVICE}
+              onValueChange={(value) =>
+                updateCamera({ deviceId: value === DEFAULT_DEVICE ? null : value })
+              }
+            >
+              <SelectTrigger aria-label="Câmera">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_DEVICE}>Padrão do navegador</SelectItem>
+                {cameras
+                  .filter((camera) => camera.deviceId)
+                  .map((camera) => (
+                    <SelectItem key={camera.deviceId} value={camera.deviceId}>
+                      {camera.label}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={settings.camera.resolution}
+                onValueChange={(value) => updateCamera({ resolution: value as CameraResolutionId })}
+              >
+                <SelectTrigger aria-label="Resolução">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CAMERA_RESOLUTIONS.map((resolution) => (
+                    <SelectItem key={resolution.id} value={resolution.id}>
+                      {resolution.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={String(settings.camera.frameRate)}
+                onValueChange={(value) => updateCamera({ frameRate: Number(value) })}
+              >
+                <SelectTrigger aria-label="Quadros por segundo">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CAMERA_FRAME_RATES.map((fps) => (
+                    <SelectItem key={fps} value={String(fps)}>
+                      {fps} fps
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </SettingsSection>
+
+          <SettingsSection
+            title="Espelhamento"
+            hint={`Vale para a imagem na tela e para o que o modelo recebe. No automático segue o modelo carregado: ${modelMirror ? "espelhado, como no Teachable Machine" : "sem espelhar"}.`}
+          >
+            <Select
+              value={settings.mirror}
+              onValueChange={(value) => updateSettings({ mirror: value as MirrorPreference })}
+            >
+              <SelectTrigger aria-label="Espelhamento">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MIRROR_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </SettingsSection>
+
+          <SettingsSection
+            title="Área da mão"
+            hint="O modelo só recebe o que está dentro do quadro sobre a câmera, sem rosto nem fundo. Arraste o quadro para mover e o canto para redimensionar."
+          >
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="roi-enabled" className="text-xs text-muted-foreground font-normal">
+                Usar só a área marcada
+              </Label>
+              <Switch
+                id="roi-enabled"
+                checked={settings.roi !== null}
+                onCheckedChange={(checked) => updateSettings({ roi: checked ? DEFAULT_ROI : null })}
+              />
+            </div>
+            {settings.roi && (
+              <button
+                onClick={() => updateSettings({ roi: DEFAULT_ROI })}
+                className="self-start text-xs text-muted-foreground underline hover:text-foreground"
+              >
+                Centralizar área
+              </button>
+            )}
+          </SettingsSection>
+
+          <SettingsSection
+            title="Backend do TensorFlow.js"
+            hint={`Em uso: ${activeBackend ?? "—"}. Se o escolhido falhar, os outros são tentados na ordem WebGL → WebAssembly → CPU.`}
+          >
+            <Select
+              value={settings.backend}
+              onValueChange={(value) => updateSettings({ backend: value as BackendPreference })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BACKEND_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </SettingsSection>
+
+          <SettingsSection
+            title="Suavização da detecção ao vivo"
+            hint="Evita que o gesto ao vivo fique piscando entre classes."
+          >
+            <SliderSetting
+              label="Peso do frame novo"
+              value={settings.smoothing.alpha}
+              min={0.05}
+              max={1}
+              step={0.05}
+              format={(v) => v.toFixed(2)}
+              onChange={(alpha) => updateSmoothing({ alpha })}
+            />
+            <SliderSetting
+              label="Confiança para entrar"
+              value={settings.smoothing.enterThreshold}
+              min={0.3}
+              max={0.95}
+              step={0.05}
+              format={(v) => `${Math.round(v * 100)}%`}
+              onChange={(enterThreshold) =>
+                updateSmoothing({
+                  enterThreshold,
+                  exitThreshold: Math.min(settings.smoothing.exitThreshold, enterThreshold),
+                })
+              }
+            />
+            <SliderSetting
+              label="Confiança para sair"
+              value={settings.smoothing.exitThreshold}
+              min={0.1}
+              max={settings.smoothing.enterThreshold}
+              step={0.05}
+              format={(v) => `${Math.round(v * 100)}%`}
+              onChange={(exitThreshold) => updateSmoothing({ exitThreshold })}
+            />
+            <SliderSetting
+              label="Tempo mínimo"
+              value={settings.smoothing.minDwellMs}
+              min={0}
+              max={1000}
+              step={50}
+              format={(v) => `${v} ms`}
+              onChange={(minDwellMs) => updateSmoothing({ minDwellMs })}
+            />
+          </SettingsSection>
+
+          {labels.length > 0 && (
+            <SettingsSection
+              title="Confiança mínima por gesto"
+              hint="Abaixo do limite o gesto conta como Nada. Use CALIBRAR para propor valores para você."
+            >
+              {labels.map((label) => (
+                <SliderSetting
+                  key={label}
+                  label={rules.label(mapping[label] ?? label)}
+                  value={getThreshold(settings.thresholds, label)}
+                  min={0.05}
+                  max={0.99}
+                  step={0.01}
+                  format={(v) => `${Math.round(v * 100)}%`}
+                  onChange={(value) =>
+                    updateSettings({ thresholds: { ...settings.thresholds, [label]: value } })
+                  }
+                />
+              ))}
+              <button
+                onClick={() => updateSettings({ thresholds: {} })}
+                className="self-start text-xs text-muted-foreground underline hover:text-foreground"
+              >
+                Restaurar padrão
+              </button>
+            </SettingsSection>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function SourceButton({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`rounded-lg px-3 py-2 text-xs font-bold transition-colors ${
+        active
+          ? "bg-primary/20 text-primary ring-2 ring-primary"
+          : "bg-muted text-muted-foreground hover:bg-muted/80"
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+function SettingsSection({
+  title,
+  hint,
+  children,
+}: {
+  title: string;
+  hint?: string;
+  children: ReactNode;
+}) {
+  return (
+    <section className="flex flex-col gap-2">
+      <Label className="font-bold">{title}</Label>
+      {children}
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+    </section>
+  );
+}
+
+function SliderSetting({
+  label,
+  value,
+  min,
+  max,
+  step,
+  format,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{label}</span>
+        <span className="text-foreground">{format(value)}</span>
+      </div>
+      <Slider
+        value={[value]}
+        min={min}
+        max={max}
+        step={step}
+        onValueChange={([v]) => onChange(v)}
+      />
+    </div>
+  );
+}
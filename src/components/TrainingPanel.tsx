@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Progress } from "@/components/ui/progress";
+import { downloadBlob } from "@/lib/download";
+import { getSamples } from "@/lib/samples";
+import {
+  checkTrainingSet,
+  DEFAULT_TRAINING,
+  type TrainingEpoch,
+  type TrainingOptions,
+  type TrainingSample,
+} from "@/lib/training";
+
+interface TrainingPanelProps {
+  counts: Record<string, number>;
+  train: (
+    samples: TrainingSample[],
+    options: TrainingOptions,
+    onEpoch?: (epoch: TrainingEpoch) => void
+  ) => Promise<void>;
+  /** The active model, trained or not, as a zip. */
+  exportModel: () => Promise<Blob>;
+  /** A model has to be loaded: its feature extractor is what gets reused. */
+  isReady: boolean;
+  disabled?: boolean;
+}
+
+const lossConfig = {
+  loss: { label: "Treino", color: "hsl(var(--primary))" },
+  valLoss: { label: "Validação", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+const accuracyConfig = {
+  accuracy: { label: "Treino", color: "hsl(var(--primary))" },
+  valAccuracy: { label: "Validação", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+function percent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Trains a new classification head on the recorded samples and shows the
+ * loss and accuracy curves as epochs finish. The trained model becomes the
+ * active one right away.
+ */
+export default function TrainingPanel({
+  counts,
+  train,
+  exportModel,
+  isReady,
+  disabled,
+}: TrainingPanelProps) {
+  const [history, setHistory] = useState<TrainingEpoch[]>([]);
+  const [status, setStatus] = useState<"idle" | "training" | "done">("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  const classes = Object.keys(counts).filter((name) => counts[name] > 0);
+  const total = classes.reduce((sum, name) => sum + counts[name], 0);
+  const last = history.length > 0 ? history[history.length - 1] : null;
+
+  const start = async () => {
+    setError(null);
+    setHistory([]);
+    try {
+      checkTrainingSet(counts);
+      setStatus("training");
+      const samples = await getSamples();
+      await train(
+        samples.map(({ className, image }) => ({ className, image })),
+        DEFAULT_TRAINING,
+        (epoch) => setHistory((list) => [...list, epoch])
+      );
+      setStatus("done");
+    } catch (err) {
+      console.error("Training failed:", err);
+      setError(err instanceof Error ? err.message : "Training failed");
+      setStatus("idle");
+    }
+  };
+
+  const download = async () => {
+    setError(null);
+    try {
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      downloadBlob(await exportModel(), `modelo-${stamp}.zip`);
+    } catch (err) {
+      console.error("Model export failed:", err);
+      setError(err instanceof Error ? err.message : "Model export failed");
+    }
+  };
+
+  return (
+    <section className="w-full max-w-4xl rounded-2xl bg-card border-2 border-border p-4 flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h2 className="font-display text-lg text-foreground">Treinar modelo</h2>
+          <p className="text-muted-foreground text-sm">
+            {classes.length} classes · {total} amostras. Só a última parte da rede é treinada,
+            em menos de um minuto.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            disabled={!isReady || status === "training"}
+            onClick={download}
+            className="px-4 py-2 rounded-xl font-display text-sm bg-muted text-muted-foreground hover:bg-muted/80 transition-all active:scale-95 disabled:opacity-30"
+          >
+            BAIXAR MODELO
+          </button>
+          <button
+            disabled={!isReady || disabled || status === "training"}
+            onClick={start}
+            className="px-6 py-4 rounded-xl font-display text-lg bg-primary text-primary-foreground hover:opacity-90 transition-all active:scale-95 disabled:opacity-30"
+          >
+            {status === "training" ? "TREINANDO…" : "TREINAR"}
+          </button>
+        </div>
+      </div>
+
+      {status === "training" && (
+        <Progress value={((last?.epoch ?? 0) / DEFAULT_TRAINING.epochs) * 100} />
+      )}
+      {error && <p className="text-destructive text-sm">Erro: {error}</p>}
+      {status === "done" && last && (
+        <p className="text-sm text-foreground">
+          Modelo treinado e em uso
+          {last.valAccuracy !== null && ` (${percent(last.valAccuracy)} na validação)`}.{" "}
+          <Link to="/" className="text-primary underline">
+            Jogar com ele
+          </Link>
+        </p>
+      )}
+
+      {history.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <ChartContainer config={lossConfig} className="h-48 w-full aspect-auto">
+            <LineChart data={history}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="epoch" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip
+                content={<ChartTooltipContent formatter={(value) => Number(value).toFixed(3)} />}
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="loss" stroke="var(--color-loss)" dot={false} strokeWidth={2} />
+              <Line dataKey="valLoss" stroke="var(--color-valLoss)" dot={false} strokeWidth={2} />
+            </LineChart>
+          </ChartContainer>
+          <ChartContainer config={accuracyConfig} className="h-48 w-full aspect-auto">
+            <LineChart data={history}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="epoch" tickLine={false} axisLine={false} />
+              <YAxis
+                domain={[0, 1]}
+                tickFormatter={percent}
+                tickLine={false}
+                axisLine={false}
+                width={40}
+              />
+              <ChartTooltip
+                content={<ChartTooltipContent formatter={(value) => percent(Number(value))} />}
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="accuracy" stroke="var(--color-accuracy)" dot={false} strokeWidth={2} />
+              <Line
+                dataKey="valAccuracy"
+                stroke="var(--color-valAccuracy)"
+                dot={false}
+                strokeWidth={2}
+              />
+            </LineChart>
+          </ChartContainer>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,44 +1,104 @@
-import { useEffect, useRef, forwardRef, useImperativeHandle, useState } from "react";
+import {
+  useEffect,
+  useRef,
+  forwardRef,
+  useImperativeHandle,
+  useState,
+  type ReactNode,
+} from "react";
+import { useCameraDevices } from "@/hooks/useCameraDevices";
+import { useInputSource } from "@/hooks/useInputSource";
+import { useSettings } from "@/hooks/useSettings";
+import { getVideoConstraints, refreshCameraDevices, resolveDeviceId } from "@/lib/camera";
+import { openInputSource, type InputSource } from "@/lib/inputSources";
 
 export interface WebcamHandle {
   getVideo: () => HTMLVideoElement | null;
 }
 
-const WebcamView = forwardRef<WebcamHandle>((_props, ref) => {
+interface WebcamViewProps {
+  /** Flips the preview; should match what the model is fed. */
+  mirror: boolean;
+  /** Overlays drawn on top of the video, in on-screen coordinates. */
+  children?: ReactNode;
+}
+
+const WebcamView = forwardRef<WebcamHandle, WebcamViewProps>(({ mirror, children }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [hasPermission, setHasPermission] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [restarts, setRestarts] = useState(0);
+  const { settings } = useSettings();
+  const devices = useCameraDevices();
+  const source = useInputSource();
+  const { resolution, frameRate } = settings.camera;
+  const deviceId = resolveDeviceId(devices, settings.camera.deviceId);
 
   useImperativeHandle(ref, () => ({
     getVideo: () => videoRef.current,
   }));
 
+  // (Re)opens the camera, or the file/synthetic source standing in for it,
+  // whenever the choice changes. The model lives in the parent, so switching
+  // only swaps the stream behind the <video>.
   useEffect(() => {
-    let stream: MediaStream | null = null;
+    let stop: (() => void) | null = null;
+    let cancelled = false;
+    setHasPermission(false);
+    setErrorMsg(null);
+
+    async function openCamera(): Promise<InputSource> {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: getVideoConstraints({ resolution, frameRate }, deviceId),
+        audio: false,
+      });
+      // An unplugged camera ends its track; reopen whatever is left
+      stream.getVideoTracks().forEach((track) =>
+        track.addEventListener("ended", () => {
+          refreshCameraDevices();
+          setRestarts((n) => n + 1);
+        })
+      );
+      // Device names are only visible once permission is granted
+      refreshCameraDevices();
+      return { stream, stop: () => stream.getTracks().forEach((t) => t.stop()) };
+    }
 
-    async function startCamera() {
+    async function start() {
       try {
-        stream = await navigator.mediaDevices.getUserMedia({
-          video: { facingMode: "user", width: 400, height: 400 },
-          audio: false,
-        });
+        const opened = source.kind === "camera" ? await openCamera() : await openInputSource(source);
+        if (cancelled) {
+          opened.stop();
+          return;
+        }
+        stop = opened.stop;
         if (videoRef.current) {
-          videoRef.current.srcObject = stream;
+          videoRef.current.srcObject = opened.stream;
           setHasPermission(true);
         }
-      } catch {
-        setErrorMsg("Não foi possível acessar a câmera. Permita o acesso!");
+      } catch (err) {
+        if (cancelled) return;
+        if (source.kind !== "camera") {
+          console.error("Failed to open input source:", err);
+          const name = source.kind === "synthetic" ? "a fonte sintética" : source.name;
+          setErrorMsg(`Não foi possível abrir ${name}.`);
+        } else {
+          setErrorMsg(
+            deviceId
+              ? "Não foi possível abrir a câmera escolhida. Escolha outra nas configurações."
+              : "Não foi possível acessar a câmera. Permita o acesso!"
+          );
+        }
       }
     }
 
-    startCamera();
+    start();
 
     return () => {
-      if (stream) {
-        stream.getTracks().forEach((t) => t.stop());
-      }
+      cancelled = true;
+      stop?.();
     };
-  }, []);
+  }, [source, deviceId, resolution, frameRate, restarts]);
 
   return (
     <div className="relative rounded-2xl overflow-hidden webcam-border">
@@ -47,8 +107,14 @@ const WebcamView = forwardRef<WebcamHandle>((_props, ref) => {
         autoPlay
         playsInline
         muted
-        className="w-[320px] h-[320px] object-cover transform -scale-x-100"
+        className={`w-[320px] h-[320px] object-cover ${mirror ? "transform -scale-x-100" : ""}`}
       />
+      {hasPermission && children}
+      {source.kind !== "camera" && (
+        <span className="absolute bottom-2 left-2 max-w-[85%] truncate rounded-md bg-background/80 px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider text-accent">
+          {source.kind === "synthetic" ? "Sintética" : source.name}
+        </span>
+      )}
       {!hasPermission && !errorMsg && (
         <div className="absolute inset-0 flex items-center justify-center bg-muted/80">
           <p className="text-muted-foreground text-sm animate-pulse">
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { getCameraDevices, subscribeCameraDevices } from "@/lib/camera";
+
+/** Connected cameras, kept up to date as devices are plugged in and out. */
+export function useCameraDevices() {
+  return useSyncExternalStore(subscribeCameraDevices, getCameraDevices);
+}
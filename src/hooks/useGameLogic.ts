@@ -1,29 +1,54 @@
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import type { GameChoice } from "./useTeachableModel";
+import { classicRules, type GameResult, type RuleEngine } from "@/lib/rules";
+import {
+  getStrategy,
+  type RoundRecord,
+  type StrategyId,
+} from "@/lib/strategies";
+import { getActiveProfileId } from "@/lib/profiles";
+import {
+  averagePredictions,
+  createId,
+  saveRound,
+  SESSION_ID,
+  type CaptureReading,
+} from "@/lib/roundHistory";
+import {
+  getMatchOutcome,
+  type MatchFormat,
+  type MatchScore,
+  type MatchWinner,
+} from "@/lib/matchFormats";
 
-export type GameResult = "win" | "lose" | "draw" | null;
-export type GamePhase = "waiting" | "countdown" | "capture" | "result";
+export type { GameResult };
+export type GamePhase = "waiting" | "countdown" | "capture" | "result" | "match-over";
 
-const CHOICES: GameChoice[] = ["rock", "paper", "scisors"];
+export type GameOptions = {
+  strategy?: StrategyId;
+  format?: MatchFormat;
+  rules?: RuleEngine;
+};
 
-function getComputerChoice(): GameChoice {
-  return CHOICES[Math.floor(Math.random() * CHOICES.length)];
-}
+export type MatchSummary = {
+  match: number;
+  winner: MatchWinner;
+  score: MatchScore;
+};
 
-function getResult(player: GameChoice, computer: GameChoice): GameResult {
-  if (player === "idle") return "lose";
-  if (player === computer) return "draw";
-  if (
-    (player === "rock" && computer === "scisors") ||
-    (player === "paper" && computer === "rock") ||
-    (player === "scisors" && computer === "paper")
-  ) {
-    return "win";
-  }
-  return "lose";
-}
+/** How the player's gesture was read, saved with the round in the history. */
+export type RoundCapture = {
+  readings: CaptureReading[];
+  modelId: string | null;
+};
+
+const ENDLESS: MatchFormat = { kind: "endless" };
 
-export function useGameLogic() {
+export function useGameLogic({
+  strategy: strategyId = "random",
+  format = ENDLESS,
+  rules = classicRules,
+}: GameOptions = {}) {
   const [phase, setPhase] = useState<GamePhase>("waiting");
   const [countdown, setCountdown] = useState(3);
   const [playerChoice, setPlayerChoice] = useState<GameChoice>("idle");
@@ -31,11 +56,39 @@ export function useGameLogic() {
   const [result, setResult] = useState<GameResult>(null);
   const [score, setScore] = useState({ player: 0, computer: 0 });
   const [roundNumber, setRoundNumber] = useState(0);
+  const [history, setHistory] = useState<RoundRecord[]>([]);
+  const [matchNumber, setMatchNumber] = useState(1);
+  const [matchStartedAt, setMatchStartedAt] = useState<number | null>(null);
+  const [matchWinner, setMatchWinner] = useState<MatchWinner | null>(null);
+  const [matches, setMatches] = useState<MatchSummary[]>([]);
+  const historyRef = useRef<RoundRecord[]>([]);
+  const scoreRef = useRef<MatchScore>({ player: 0, computer: 0, rounds: 0 });
+  const matchStartedAtRef = useRef<number | null>(null);
+  const phaseRef = useRef<GamePhase>("waiting");
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
+  const changePhase = useCallback((next: GamePhase) => {
+    phaseRef.current = next;
+    setPhase(next);
+  }, []);
+
+  const finishMatch = useCallback(
+    (winner: MatchWinner) => {
+      setMatchWinner(winner);
+      setMatches((m) => [...m, { match: matchNumber, winner, score: scoreRef.current }]);
+      changePhase("match-over");
+    },
+    [matchNumber, changePhase]
+  );
+
   const startRound = useCallback(
     (onCapture: () => void) => {
-      setPhase("countdown");
+      if (matchStartedAtRef.current === null) {
+        matchStartedAtRef.current = Date.now();
+        setMatchStartedAt(matchStartedAtRef.current);
+      }
+
+      changePhase("countdown");
       setResult(null);
       setPlayerChoice("idle");
       setComputerChoice("idle");
@@ -49,43 +102,115 @@ export function useGameLogic() {
           setCountdown(count);
         } else {
           if (timerRef.current) clearInterval(timerRef.current);
-          setPhase("capture");
+          changePhase("capture");
           onCapture();
         }
       }, 1000);
     },
-    []
+    [changePhase]
   );
 
   const resolveRound = useCallback(
-    (playerPick: GameChoice) => {
-      const compPick = getComputerChoice();
-      const roundResult = getResult(playerPick, compPick);
+    (playerPick: GameChoice, capture?: RoundCapture) => {
+      const strategy = getStrategy(strategyId);
+      const compPick = strategy.choose(historyRef.current, Math.random, rules);
+      const roundResult = rules.getResult(playerPick, compPick);
+
+      historyRef.current = [
+        ...historyRef.current,
+        {
+          player: playerPick,
+          computer: compPick,
+          result: roundResult,
+          strategy: strategy.id,
+          match: matchNumber,
+        },
+      ];
+      setHistory(historyRef.current);
+
+      const readings = capture?.readings ?? [];
+      saveRound({
+        id: createId(),
+        timestamp: Date.now(),
+        sessionId: SESSION_ID,
+        profileId: getActiveProfileId(),
+        match: matchNumber,
+        player: playerPick,
+        computer: compPick,
+        result: roundResult,
+        predictions: averagePredictions(readings.map((r) => r.predictions)),
+        readings,
+        strategy: strategy.id,
+        ruleSet: rules.ruleSet.id,
+        modelId: capture?.modelId ?? null,
+      }).catch((err) => console.error("Failed to save round:", err));
+
+      const s = scoreRef.current;
+      scoreRef.current = {
+        player: s.player + (roundResult === "win" ? 1 : 0),
+        computer: s.computer + (roundResult === "lose" ? 1 : 0),
+        rounds: s.rounds + 1,
+      };
 
       setPlayerChoice(playerPick);
       setComputerChoice(compPick);
       setResult(roundResult);
-      setPhase("result");
-      setRoundNumber((r) => r + 1);
+      setRoundNumber(scoreRef.current.rounds);
+      setScore({ player: scoreRef.current.player, computer: scoreRef.current.computer });
 
-      if (roundResult === "win") {
-        setScore((s) => ({ ...s, player: s.player + 1 }));
-      } else if (roundResult === "lose") {
-        setScore((s) => ({ ...s, computer: s.computer + 1 }));
+      const elapsed = Date.now() - (matchStartedAtRef.current ?? Date.now());
+      const winner = getMatchOutcome(format, scoreRef.current, elapsed);
+      if (winner) {
+        finishMatch(winner);
+      } else {
+        changePhase("result");
       }
     },
-    []
+    [strategyId, format, rules, matchNumber, finishMatch, changePhase]
   );
 
-  const resetGame = useCallback(() => {
-    setPhase("waiting");
+  // Blitz: when the clock runs out between rounds, end the match right away.
+  // A round in progress is allowed to finish and ends the match when resolved.
+  useEffect(() => {
+    if (format.kind !== "blitz" || matchStartedAt === null || matchWinner) return;
+
+    const remaining = matchStartedAt + format.durationMs - Date.now();
+    const timeout = setTimeout(() => {
+      if (phaseRef.current === "waiting" || phaseRef.current === "result") {
+        finishMatch(getMatchOutcome(format, scoreRef.current, format.durationMs));
+      }
+    }, Math.max(0, remaining));
+
+    return () => clearTimeout(timeout);
+  }, [format, matchStartedAt, matchWinner, finishMatch]);
+
+  const resetMatch = useCallback(() => {
+    changePhase("waiting");
     setCountdown(3);
     setPlayerChoice("idle");
     setComputerChoice("idle");
     setResult(null);
     setScore({ player: 0, computer: 0 });
     setRoundNumber(0);
-  }, []);
+    setMatchWinner(null);
+    setMatchStartedAt(null);
+    scoreRef.current = { player: 0, computer: 0, rounds: 0 };
+    matchStartedAtRef.current = null;
+  }, [changePhase]);
+
+  /** Starts a fresh match; the session history and past matches are kept. */
+  const startNextMatch = useCallback(() => {
+    resetMatch();
+    setMatchNumber((n) => n + 1);
+  }, [resetMatch]);
+
+  const resetGame = useCallback(() => {
+    resetMatch();
+    setMatchNumber(1);
+    setMatches([]);
+    historyRef.current = [];
+    setHistory([]);
+  }, [resetMatch]);
 
   return {
     phase,
@@ -95,22 +220,14 @@ export function useGameLogic() {
     result,
     score,
     roundNumber,
+    history,
+    matchNumber,
+    matchStartedAt,
+    matchWinner,
+    matches,
     startRound,
     resolveRound,
+    startNextMatch,
     resetGame,
   };
 }
-
-export const CHOICE_EMOJI: Record<GameChoice, string> = {
-  idle: "😴",
-  rock: "🪨",
-  paper: "📄",
-  scisors: "✂️",
-};
-
-export const CHOICE_LABEL: Record<GameChoice, string> = {
-  idle: "Nada",
-  rock: "Pedra",
-  paper: "Papel",
-  scisors: "Tesoura",
-};
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { getInputSource, subscribeInputSource } from "@/lib/inputSources";
+
+/** The frame source WebcamView is showing: the camera, a file or the synthetic canvas. */
+export function useInputSource() {
+  return useSyncExternalStore(subscribeInputSource, getInputSource);
+}
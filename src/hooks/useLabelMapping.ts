@@ -0,0 +1,14 @@
+import { useMemo } from "react";
+import { resolveLabelMapping } from "@/lib/labelMapping";
+import { useRules } from "./useRules";
+import { useSettings } from "./useSettings";
+
+/** How the model's labels resolve to gestures of the active rule set. */
+export function useLabelMapping(labels: string[]) {
+  const { settings } = useSettings();
+  const rules = useRules();
+  return useMemo(
+    () => resolveLabelMapping(labels, rules, settings.labelMapping),
+    [labels, rules, settings.labelMapping]
+  );
+}
@@ -0,0 +1,25 @@
+import { useSyncExternalStore } from "react";
+import {
+  createProfile,
+  deleteProfile as removeProfile,
+  getActiveProfile,
+  getProfiles,
+  subscribeProfiles,
+  switchProfile,
+  updateProfile,
+} from "@/lib/profiles";
+import { clearRounds } from "@/lib/roundHistory";
+import { removeProfileSettings } from "@/lib/settings";
+
+/** Deleting a player also drops their settings and round history. */
+async function deleteProfile(id: string) {
+  removeProfile(id);
+  removeProfileSettings(id);
+  await clearRounds(id).catch((err) => console.error("Failed to delete profile history:", err));
+}
+
+export function useProfiles() {
+  const profiles = useSyncExternalStore(subscribeProfiles, getProfiles);
+  const activeProfile = useSyncExternalStore(subscribeProfiles, getActiveProfile);
+  return { profiles, activeProfile, switchProfile, createProfile, updateProfile, deleteProfile };
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import { getRounds, subscribeHistory, type RoundQuery, type StoredRound } from "@/lib/roundHistory";
+
+/** Rounds stored in the local history, refreshed whenever a round is saved. */
+export function useRoundHistory({ profileId, sessionId, since, limit }: RoundQuery = {}) {
+  const [rounds, setRounds] = useState<StoredRound[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      getRounds({ profileId, sessionId, since, limit })
+        .then((result) => {
+          if (cancelled) return;
+          setRounds(result);
+          setError(null);
+        })
+        .catch((err) => {
+          console.error("Failed to read round history:", err);
+          if (!cancelled) setError(err instanceof Error ? err.message : "Failed to read history");
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    };
+
+    load();
+    const unsubscribe = subscribeHistory(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [profileId, sessionId, since, limit]);
+
+  return { rounds, isLoading, error };
+}
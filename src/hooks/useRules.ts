@@ -0,0 +1,8 @@
+import { getRuleEngine } from "@/lib/rules";
+import { useSettings } from "./useSettings";
+
+/** Rule engine for the rule set picked in the settings. */
+export function useRules() {
+  const { settings } = useSettings();
+  return getRuleEngine(settings.ruleSet);
+}
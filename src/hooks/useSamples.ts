@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import { getSampleCounts, getSamples, subscribeSamples, type Sample } from "@/lib/samples";
+
+/** Sample counts per class and the samples of `className`, refreshed after every change. */
+export function useSamples(className: string | null) {
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [samples, setSamples] = useState<Sample[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      Promise.all([getSampleCounts(), className ? getSamples(className) : Promise.resolve([])])
+        .then(([nextCounts, nextSamples]) => {
+          if (cancelled) return;
+          setCounts(nextCounts);
+          setSamples(nextSamples);
+          setError(null);
+        })
+        .catch((err) => {
+          console.error("Failed to read samples:", err);
+          if (!cancelled) setError(err instanceof Error ? err.message : "Failed to read samples");
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    };
+
+    load();
+    const unsubscribe = subscribeSamples(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [className]);
+
+  return { counts, samples, isLoading, error };
+}
@@ -1,25 +1,91 @@
-import { useState, useCallback } from "react";
-import JSZip from "jszip";
+import { useState, useCallback, useEffect } from "react";
+import type { BackendName } from "@/lib/backends";
+import { pickGesture } from "@/lib/calibration";
+import { toGesture } from "@/lib/labelMapping";
+import type { EngineModelInfo } from "@/lib/inferenceEngine";
+import * as inference from "@/lib/inferenceClient";
+import { writeModelArchive, type LoadProgress, type ModelSource } from "@/lib/modelArchive";
+import { getModelKey } from "@/lib/modelCache";
+import { resolveMirror, TEACHABLE_MACHINE_PREPROCESS, type FrameView } from "@/lib/preprocess";
+import type { Saliency } from "@/lib/saliency";
+import { getSettings } from "@/lib/settings";
+import type { TrainingEpoch, TrainingOptions, TrainingSample } from "@/lib/training";
+import { useLabelMapping } from "./useLabelMapping";
+import { useSettings } from "./useSettings";
 
 export type Prediction = {
   className: string;
   probability: number;
 };
 
-export type GameChoice = "idle" | "rock" | "paper" | "scisors";
+/** "idle" or the id of a gesture in the active rule set (see lib/rules). */
+export type GameChoice = string;
 
-// We load the model manually using tf.js since @teachablemachine/image
-// has compatibility issues. We'll use a simpler approach with tf.js directly.
-let modelInstance: any = null;
+// The model itself lives in the inference worker; the main thread only
+// keeps what it needs to label the probabilities coming back.
+let isModelLoaded = false;
 let metadataLabels: string[] = [];
+let currentModelName: string | null = null;
+let currentModelId: string | null = null;
+let currentBackend: BackendName | null = null;
+let modelMirror = TEACHABLE_MACHINE_PREPROCESS.mirror;
+
+const DEFAULT_MODEL_URL = "/model.zip";
+
+// What to load again after the worker crashed. A model trained here dies
+// with the worker, so this stays the model it was trained from.
+let currentSource: ModelSource | string = DEFAULT_MODEL_URL;
+
+// Mirroring and the hand area as the player set them, for the next frame
+function currentView(): FrameView {
+  const { mirror, roi } = getSettings();
+  return { mirror: resolveMirror(mirror, modelMirror), roi };
+}
 
 export function useTeachableModel() {
   const [isLoading, setIsLoading] = useState(false);
   const [isReady, setIsReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [modelName, setModelName] = useState<string | null>(currentModelName);
+  const [modelId, setModelId] = useState<string | null>(currentModelId);
+  const [labels, setLabels] = useState<string[]>(metadataLabels);
+  const [progress, setProgress] = useState<LoadProgress | null>(null);
+  const [backend, setBackend] = useState<BackendName | null>(currentBackend);
+  const [defaultMirror, setDefaultMirror] = useState(modelMirror);
+  const { settings } = useSettings();
+  const { mapping, unmapped } = useLabelMapping(labels);
+
+  const activate = useCallback((info: EngineModelInfo, fallbackName: string) => {
+    const { metadata, backend: activeBackend, preprocess } = info;
+    isModelLoaded = true;
+    currentBackend = activeBackend;
+    metadataLabels = metadata.labels;
+    currentModelName = metadata.modelName ?? fallbackName;
+    currentModelId = getModelKey(metadata);
+    modelMirror = preprocess.mirror;
+
+    setModelName(currentModelName);
+    setModelId(currentModelId);
+    setLabels(metadataLabels);
+    setBackend(currentBackend);
+    setDefaultMirror(modelMirror);
+    setIsReady(true);
+  }, []);
+
+  // Without a model in the worker every prediction would silently be idle:
+  // mark the model as gone so the error and its retry button show up
+  useEffect(
+    () =>
+      inference.subscribeWorkerCrash((message) => {
+        isModelLoaded = false;
+        setIsReady(false);
+        setError(message);
+      }),
+    []
+  );
 
-  const loadModel = useCallback(async () => {
-    if (modelInstance) {
+  const loadModel = useCallback(async (source?: ModelSource) => {
+    if (isModelLoaded && !source) {
       setIsReady(true);
       return;
     }
@@ -28,97 +94,69 @@ export function useTeachableModel() {
     setError(null);
 
     try {
-      // Fetch and extract zip
-      const response = await fetch("/model.zip");
-      const blob = await response.blob();
-      const zip = await JSZip.loadAsync(blob);
-
-      // Extract metadata
-      const metadataFile = zip.file("metadata.json");
-      if (!metadataFile) throw new Error("metadata.json not found in model zip");
-      const metadataText = await metadataFile.async("string");
-      const metadata = JSON.parse(metadataText);
-      metadataLabels = metadata.labels || [];
-
-      // Extract model.json
-      const modelFile = zip.file("model.json");
-      if (!modelFile) throw new Error("model.json not found in model zip");
-      const modelText = await modelFile.async("string");
-      const modelJson = JSON.parse(modelText);
-
-      // Extract weight files and concatenate into a single buffer
-      const tf = await import("@tensorflow/tfjs");
-
-      const weightManifest = modelJson.weightsManifest;
-      const weightDataArrays: ArrayBuffer[] = [];
-      const weightSpecs: any[] = [];
-
-      if (weightManifest) {
-        for (const group of weightManifest) {
-          // Collect weight specs
-          if (group.weights) {
-            for (const w of group.weights) {
-              weightSpecs.push({
-                name: w.name,
-                shape: w.shape,
-                dtype: w.dtype || "float32",
-              });
-            }
-          }
-          // Collect weight data
-          for (const path of group.paths) {
-            const wFile = zip.file(path);
-            if (wFile) {
-              const buffer = await wFile.async("arraybuffer");
-              weightDataArrays.push(buffer);
-            }
-          }
-        }
-      }
-
-      // Concatenate all weight buffers
-      const totalLength = weightDataArrays.reduce((sum, buf) => sum + buf.byteLength, 0);
-      const weightData = new ArrayBuffer(totalLength);
-      const view = new Uint8Array(weightData);
-      let offset = 0;
-      for (const buf of weightDataArrays) {
-        view.set(new Uint8Array(buf), offset);
-        offset += buf.byteLength;
-      }
-
-      // Load model from memory (no network requests needed)
-      modelInstance = await tf.loadLayersModel(
-        tf.io.fromMemory(modelJson.modelTopology, weightSpecs, weightData)
-      );
-
-      setIsReady(true);
+      const target = source ?? currentSource;
+      const info = await inference.loadModel(target, getSettings().backend, setProgress);
+      currentSource = target;
+      activate(info, target === DEFAULT_MODEL_URL ? "default" : "custom");
     } catch (err) {
       console.error("Failed to load model:", err);
       setError(err instanceof Error ? err.message : "Failed to load model");
     } finally {
       setIsLoading(false);
+      setProgress(null);
     }
+  }, [activate]);
+
+  /**
+   * Retrains the loaded model on recorded samples; the result replaces it
+   * for every view. Errors are thrown to the caller, which shows them next
+   * to the training curves.
+   */
+  const trainModel = useCallback(
+    async (
+      samples: TrainingSample[],
+      options: TrainingOptions,
+      onEpoch?: (epoch: TrainingEpoch) => void
+    ) => {
+      if (!isModelLoaded) throw new Error("no model loaded to train from");
+      activate(await inference.train(samples, options, onEpoch), "trained");
+    },
+    [activate]
+  );
+
+  /** The active model (loaded or trained here) as a zip that loadModel accepts. */
+  const exportModel = useCallback(async (): Promise<Blob> => {
+    if (!isModelLoaded) throw new Error("no model loaded to export");
+    return writeModelArchive(await inference.exportModel());
   }, []);
 
+  // Apply a backend forced from the settings screen without reloading the model
+  useEffect(() => {
+    if (!isModelLoaded) return;
+
+    let cancelled = false;
+    inference
+      .setBackend(settings.backend)
+      .then((active) => {
+        currentBackend = active;
+        if (!cancelled) setBackend(active);
+      })
+      .catch((err) => {
+        console.error("Failed to switch backend:", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to switch backend");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [settings.backend]);
+
   const predict = useCallback(
     async (videoElement: HTMLVideoElement): Promise<Prediction[]> => {
-      if (!modelInstance) return [];
+      if (!isModelLoaded) return [];
 
       try {
-        const tf = await import("@tensorflow/tfjs");
-
-        // Preprocess: resize to 224x224, normalize to 0-1
-        const tensor = tf.tidy(() => {
-          const img = tf.browser.fromPixels(videoElement);
-          const resized = tf.image.resizeBilinear(img, [224, 224]);
-          const normalized = resized.div(255.0);
-          return normalized.expandDims(0);
-        });
-
-        const prediction = modelInstance.predict(tensor) as any;
-        const probabilities = await prediction.data();
-        tensor.dispose();
-        prediction.dispose();
+        const probabilities = await inference.predict(videoElement, currentView());
 
         return metadataLabels.map((label, i) => ({
           className: label,
@@ -132,20 +170,48 @@ export function useTeachableModel() {
     []
   );
 
-  const getTopPrediction = useCallback(
-    async (videoElement: HTMLVideoElement): Promise<GameChoice> => {
-      const predictions = await predict(videoElement);
+  const explain = useCallback(async (videoElement: HTMLVideoElement): Promise<Saliency | null> => {
+    if (!isModelLoaded) return null;
+    return inference.explain(videoElement, currentView());
+  }, []);
+
+  /** The gesture a set of predictions stands for, after thresholds and label mapping. */
+  const toChoice = useCallback(
+    (predictions: Prediction[]): GameChoice => {
       if (predictions.length === 0) return "idle";
 
-      const top = predictions.reduce((a, b) =>
-        a.probability > b.probability ? a : b
-      );
+      const label = pickGesture(predictions, settings.thresholds, "");
+      return label ? toGesture(mapping, label) : "idle";
+    },
+    [settings.thresholds, mapping]
+  );
 
-      if (top.probability < 0.6) return "idle";
-      return top.className as GameChoice;
+  const getTopPrediction = useCallback(
+    async (videoElement: HTMLVideoElement): Promise<GameChoice> => {
+      return toChoice(await predict(videoElement));
     },
-    [predict]
+    [predict, toChoice]
   );
 
-  return { loadModel, isLoading, isReady, error, predict, getTopPrediction };
+  return {
+    loadModel,
+    trainModel,
+    exportModel,
+    isLoading,
+    isReady,
+    error,
+    modelName,
+    modelId,
+    labels,
+    labelMapping: mapping,
+    unmappedLabels: unmapped,
+    progress,
+    backend,
+    mirror: resolveMirror(settings.mirror, defaultMirror),
+    defaultMirror,
+    predict,
+    explain,
+    toChoice,
+    getTopPrediction,
+  };
 }
@@ -0,0 +1,55 @@
+import wasmPath from "@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm?url";
+import wasmSimdPath from "@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-simd.wasm?url";
+import wasmThreadedSimdPath from "@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-threaded-simd.wasm?url";
+import type { BackendPreference } from "./settings";
+
+type TF = typeof import("@tensorflow/tfjs");
+
+export type BackendName = "webgl" | "wasm" | "cpu";
+
+// Fastest first. WASM still runs well on machines with a blocklisted GPU
+// (and on headless CI), CPU is the last resort.
+export const BACKEND_ORDER: BackendName[] = ["webgl", "wasm", "cpu"];
+
+/** Backends to try, in order: the forced one first, then the usual fallbacks. */
+export function getBackendCandidates(preference: BackendPreference): BackendName[] {
+  if (preference === "auto") return BACKEND_ORDER;
+  return [preference, ...BACKEND_ORDER.filter((b) => b !== preference)];
+}
+
+let wasmRegistered = false;
+
+async function registerWasm() {
+  if (wasmRegistered) return;
+  const wasm = await import("@tensorflow/tfjs-backend-wasm");
+  // Vite fingerprints the binaries, so tell tf.js where each one ended up.
+  wasm.setWasmPaths({
+    "tfjs-backend-wasm.wasm": wasmPath,
+    "tfjs-backend-wasm-simd.wasm": wasmSimdPath,
+    "tfjs-backend-wasm-threaded-simd.wasm": wasmThreadedSimdPath,
+  });
+  wasmRegistered = true;
+}
+
+/**
+ * Switches tf.js to the preferred backend, falling back in order when a
+ * backend fails to initialize. Returns the backend that is now active.
+ */
+export async function activateBackend(
+  tf: TF,
+  preference: BackendPreference
+): Promise<BackendName> {
+  for (const name of getBackendCandidates(preference)) {
+    try {
+      if (name === "wasm") await registerWasm();
+      if (!(await tf.setBackend(name))) continue;
+      await tf.ready();
+      // Blocklisted GPUs sometimes initialize and then fail on the first kernel.
+      tf.tidy(() => tf.add(tf.scalar(1), tf.scalar(1)).dataSync());
+      return name;
+    } catch (err) {
+      console.warn(`tf.js backend "${name}" is unavailable:`, err);
+    }
+  }
+  throw new Error("no tf.js backend could be initialized");
+}
@@ -0,0 +1,119 @@
+import type { Prediction } from "@/hooks/useTeachableModel";
+
+/**
+ * Per-class confidence thresholds. A class is only picked when its
+ * probability clears its own threshold, so an overconfident class can be
+ * made stricter and a timid one more lenient.
+ */
+
+export const DEFAULT_THRESHOLD = 0.6;
+
+const MIN_THRESHOLD = 0.05;
+const MAX_THRESHOLD = 0.99;
+
+export type Thresholds = Record<string, number>;
+
+/** Probabilities recorded while the player held a known gesture. */
+export type CalibrationSample = {
+  label: string;
+  predictions: Prediction[];
+};
+
+export type ThresholdProposal = {
+  className: string;
+  threshold: number;
+  /** Share of the class's own frames that clear the threshold. */
+  truePositiveRate: number;
+  /** Share of other gestures' frames that wrongly clear it. */
+  falsePositiveRate: number;
+};
+
+export function getThreshold(thresholds: Thresholds, className: string): number {
+  return thresholds[className] ?? DEFAULT_THRESHOLD;
+}
+
+/**
+ * The most probable class among those that clear their threshold, or
+ * `fallback` when none does.
+ */
+export function pickGesture(
+  predictions: Prediction[],
+  thresholds: Thresholds,
+  fallback = "idle"
+): string {
+  let best: Prediction | null = null;
+  for (const p of predictions) {
+    if (p.probability < getThreshold(thresholds, p.className)) continue;
+    if (!best || p.probability > best.probability) best = p;
+  }
+  return best ? best.className : fallback;
+}
+
+function probabilityOf(sample: CalibrationSample, className: string): number {
+  return sample.predictions.find((p) => p.className === className)?.probability ?? 0;
+}
+
+function rateAtOrAbove(values: number[], threshold: number): number {
+  return values.filter((v) => v >= threshold).length / values.length;
+}
+
+/**
+ * Proposes a threshold per class that best separates the class's own frames
+ * from frames of every other gesture (maximum of TPR - FPR, Youden's J).
+ * When a whole range of thresholds separates equally well, the middle of
+ * that range is used to leave the widest margin on both sides. Classes
+ * without recordings of both kinds get no proposal.
+ */
+export function proposeThresholds(
+  samples: CalibrationSample[],
+  labels: string[]
+): ThresholdProposal[] {
+  const proposals: ThresholdProposal[] = [];
+
+  for (const className of labels) {
+    const positives = samples
+      .filter((s) => s.label === className)
+      .map((s) => probabilityOf(s, className));
+    const negatives = samples
+      .filter((s) => s.label !== className)
+      .map((s) => probabilityOf(s, className));
+    if (positives.length === 0 || negatives.length === 0) continue;
+
+    // Any threshold between two consecutive observed values behaves the
+    // same, so only the observed values need to be tried.
+    const candidates = [...new Set([...positives, ...negatives])].sort((a, b) => a - b);
+
+    let bestScore = -Infinity;
+    let bestLow = 0;
+    let bestHigh = 0;
+    for (let i = 0; i < candidates.length; i++) {
+      const low = i === 0 ? 0 : candidates[i - 1];
+      const high = candidates[i];
+      const score = rateAtOrAbove(positives, high) - rateAtOrAbove(negatives, high);
+      if (score > bestScore) {
+        bestScore = score;
+        bestLow = low;
+        bestHigh = high;
+      } else if (score === bestScore && low === bestHigh) {
+        // Contiguous tie: widen the range of equally good thresholds.
+        bestHigh = high;
+      }
+    }
+
+    // `bestHigh` is the smallest value the threshold may be to keep the
+    // same counts; anything in (bestLow, bestHigh] works. Centre it.
+    const threshold = Math.min(
+      MAX_THRESHOLD,
+      Math.max(MIN_THRESHOLD, (bestLow + bestHigh) / 2)
+    );
+
+    proposals.push({
+      className,
+      threshold,
+      truePositiveRate: rateAtOrAbove(positives, threshold),
+      falsePositiveRate: rateAtOrAbove(negatives, threshold),
+    });
+  }
+
+  return proposals;
+}
@@ -0,0 +1,116 @@
+/**
+ * Camera selection: which video input to open and at what resolution and
+ * frame rate. The list of cameras is kept outside React and refreshed on
+ * `devicechange`, so plugging or unplugging a USB camera updates every
+ * picker and lets the webcam fall back when its device disappears.
+ */
+
+export type CameraResolutionId = "square" | "480p" | "720p" | "1080p";
+
+export type CameraResolution = {
+  id: CameraResolutionId;
+  label: string;
+  width: number;
+  height: number;
+};
+
+export type CameraSettings = {
+  /** null opens the browser's default (front-facing) camera. */
+  deviceId: string | null;
+  resolution: CameraResolutionId;
+  frameRate: number;
+};
+
+export type CameraDevice = {
+  deviceId: string;
+  label: string;
+};
+
+// The model only sees a centered square, so the small square default is
+// enough; bigger sizes help document cameras that crop badly at 400px.
+export const CAMERA_RESOLUTIONS: CameraResolution[] = [
+  { id: "square", label: "400 × 400", width: 400, height: 400 },
+  { id: "480p", label: "640 × 480", width: 640, height: 480 },
+  { id: "720p", label: "1280 × 720", width: 1280, height: 720 },
+  { id: "1080p", label: "1920 × 1080", width: 1920, height: 1080 },
+];
+
+export const CAMERA_FRAME_RATES = [15, 24, 30, 60];
+
+export const DEFAULT_CAMERA: CameraSettings = {
+  deviceId: null,
+  resolution: "square",
+  frameRate: 30,
+};
+
+export function getCameraResolution(id: CameraResolutionId): CameraResolution {
+  return CAMERA_RESOLUTIONS.find((r) => r.id === id) ?? CAMERA_RESOLUTIONS[0];
+}
+
+/**
+ * The device to open: the chosen one while it's plugged in, otherwise the
+ * default camera. Before camera permission is granted browsers hide device
+ * ids, so the choice is trusted until the list can say otherwise.
+ */
+export function resolveDeviceId(
+  devices: CameraDevice[] | null,
+  preferred: string | null
+): string | null {
+  if (!preferred || !devices || devices.every((d) => !d.deviceId)) return preferred;
+  return devices.some((d) => d.deviceId === preferred) ? preferred : null;
+}
+
+/**
+ * Constraints for getUserMedia. A chosen device is required exactly, since
+ * browsers may otherwise hand back the default camera; size and frame rate
+ * are only ideals the browser gets as close to as the camera allows.
+ */
+export function getVideoConstraints(
+  camera: Pick<CameraSettings, "resolution" | "frameRate">,
+  deviceId: string | null
+): MediaTrackConstraints {
+  const { width, height } = getCameraResolution(camera.resolution);
+  return {
+    ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: "user" }),
+    width: { ideal: width },
+    height: { ideal: height },
+    frameRate: { ideal: camera.frameRate },
+  };
+}
+
+let devices: CameraDevice[] | null = null;
+const listeners = new Set<() => void>();
+
+/** Cameras seen by the last enumeration, or null before the first one finishes. */
+export function getCameraDevices(): CameraDevice[] | null {
+  return devices;
+}
+
+export async function refreshCameraDevices() {
+  if (!navigator.mediaDevices?.enumerateDevices) return;
+  try {
+    const all = await navigator.mediaDevices.enumerateDevices();
+    devices = all
+      .filter((d) => d.kind === "videoinput")
+      .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Câmera ${i + 1}` }));
+  } catch (err) {
+    console.warn("Could not list cameras:", err);
+    devices = [];
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/** Starts watching for plugged and unplugged cameras with the first subscriber. */
+export function subscribeCameraDevices(listener: () => void) {
+  if (listeners.size === 0 && navigator.mediaDevices) {
+    navigator.mediaDevices.addEventListener("devicechange", refreshCameraDevices);
+    if (!devices) refreshCameraDevices();
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      navigator.mediaDevices?.removeEventListener("devicechange", refreshCameraDevices);
+    }
+  };
+}
@@ -0,0 +1,48 @@
+import type { Prediction } from "@/hooks/useTeachableModel";
+
+/**
+ * Live numbers for the debug overlay. The prediction loop reports every
+ * frame here and only the overlay subscribes, so the game itself doesn't
+ * re-render on each frame.
+ */
+
+export type DebugFrame = {
+  predictions: Prediction[];
+  /** Time from handing the frame to the model to getting probabilities back. */
+  latencyMs: number;
+  timestamp: number;
+};
+
+export type DebugStats = {
+  frame: DebugFrame | null;
+  fps: number;
+};
+
+const FPS_WINDOW_MS = 1000;
+
+/** Frames per second over the window ending at `now`. */
+export function framesPerSecond(timestamps: number[], now: number, windowMs = FPS_WINDOW_MS) {
+  const recent = timestamps.filter((t) => now - t < windowMs);
+  return (recent.length * 1000) / windowMs;
+}
+
+let timestamps: number[] = [];
+let stats: DebugStats = { frame: null, fps: 0 };
+const listeners = new Set<() => void>();
+
+export function reportFrame(frame: DebugFrame) {
+  timestamps = [...timestamps.filter((t) => frame.timestamp - t < FPS_WINDOW_MS), frame.timestamp];
+  stats = { frame, fps: framesPerSecond(timestamps, frame.timestamp) };
+  listeners.forEach((listener) => listener());
+}
+
+export function getDebugStats(): DebugStats {
+  return stats;
+}
+
+export function subscribeDebugStats(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,237 @@
+import type { Prediction } from "@/hooks/useTeachableModel";
+import { getRounds, saveRounds, type CaptureReading, type StoredRound } from "./roundHistory";
+
+/**
+ * Moves the round history between machines. JSON keeps rounds exactly as
+ * stored; CSV flattens them to one row per round for notebooks, with a
+ * column per class for the averaged probabilities and for each capture
+ * reading. Both formats can be imported back.
+ */
+
+const FORMAT = "rps-history";
+const FORMAT_VERSION = 1;
+
+const BASE_COLUMNS = [
+  "id",
+  "timestamp",
+  "date",
+  "sessionId",
+  "profileId",
+  "match",
+  "player",
+  "computer",
+  "result",
+  "strategy",
+  "ruleSet",
+  "modelId",
+] as const;
+
+export function exportRoundsJson(rounds: StoredRound[]): string {
+  return JSON.stringify(
+    { format: FORMAT, version: FORMAT_VERSION, exportedAt: new Date().toISOString(), rounds },
+    null,
+    2
+  );
+}
+
+function classesOf(rounds: StoredRound[]): string[] {
+  const classes = new Set<string>();
+  for (const round of rounds) {
+    for (const p of round.predictions) classes.add(p.className);
+    for (const reading of round.readings) {
+      for (const p of reading.predictions) classes.add(p.className);
+    }
+  }
+  return [...classes];
+}
+
+function probabilityOf(predictions: Prediction[], className: string): string {
+  const p = predictions.find((p) => p.className === className);
+  return p ? String(p.probability) : "";
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function exportRoundsCsv(rounds: StoredRound[]): string {
+  const classes = classesOf(rounds);
+  const readingCount = Math.max(0, ...rounds.map((r) => r.readings.length));
+
+  const header: string[] = [...BASE_COLUMNS, ...classes.map((c) => `p_${c}`)];
+  for (let i = 1; i <= readingCount; i++) {
+    header.push(`reading${i}_gesture`, ...classes.map((c) => `reading${i}_p_${c}`));
+  }
+
+  const rows = rounds.map((round) => {
+    const row = [
+      round.id,
+      String(round.timestamp),
+      new Date(round.timestamp).toISOString(),
+      round.sessionId,
+      round.profileId,
+      String(round.match),
+      round.player,
+      round.computer,
+      round.result ?? "",
+      round.strategy,
+      round.ruleSet,
+      round.modelId ?? "",
+      ...classes.map((c) => probabilityOf(round.predictions, c)),
+    ];
+    for (let i = 0; i < readingCount; i++) {
+      const reading = round.readings[i];
+      row.push(
+        reading?.gesture ?? "",
+        ...classes.map((c) => (reading ? probabilityOf(reading.predictions, c) : ""))
+      );
+    }
+    return row;
+  });
+
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\n");
+}
+
+/** RFC 4180 style: quoted fields may contain commas, quotes and newlines. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.length > 1 || r[0] !== "");
+}
+
+function predictionsFrom(record: Record<string, string>, prefix: string): Prediction[] {
+  return Object.keys(record)
+    .filter((key) => key.startsWith(prefix) && record[key] !== "")
+    .map((key) => ({ className: key.slice(prefix.length), probability: Number(record[key]) }));
+}
+
+function roundsFromCsv(text: string): StoredRound[] {
+  const [header, ...rows] = parseCsv(text);
+  const missing = BASE_COLUMNS.filter((c) => !header?.includes(c));
+  if (missing.length > 0) throw new Error(`CSV is missing columns: ${missing.join(", ")}`);
+
+  return rows.map((cells) => {
+    const record: Record<string, string> = {};
+    header.forEach((column, i) => (record[column] = cells[i] ?? ""));
+
+    const readings: CaptureReading[] = [];
+    for (let i = 1; `reading${i}_gesture` in record; i++) {
+      if (record[`reading${i}_gesture`] === "") continue;
+      readings.push({
+        gesture: record[`reading${i}_gesture`],
+        predictions: predictionsFrom(record, `reading${i}_p_`),
+      });
+    }
+
+    return {
+      id: record.id,
+      timestamp: Number(record.timestamp),
+      sessionId: record.sessionId,
+      profileId: record.profileId,
+      match: Number(record.match),
+      player: record.player,
+      computer: record.computer,
+      result: (record.result || null) as StoredRound["result"],
+      predictions: predictionsFrom(record, "p_"),
+      readings,
+      strategy: record.strategy as StoredRound["strategy"],
+      ruleSet: record.ruleSet as StoredRound["ruleSet"],
+      modelId: record.modelId || null,
+    };
+  });
+}
+
+function roundsFromJson(text: string): StoredRound[] {
+  const data = JSON.parse(text);
+  const rounds = Array.isArray(data) ? data : data?.rounds;
+  if (!Array.isArray(rounds)) throw new Error("JSON file has no rounds");
+  if (!Array.isArray(data) && data.format !== FORMAT) {
+    throw new Error(`not a ${FORMAT} export`);
+  }
+  if (!Array.isArray(data) && data.version > FORMAT_VERSION) {
+    throw new Error(`export version ${data.version} is newer than this app supports`);
+  }
+  return rounds.map((r: StoredRound) => ({
+    ...r,
+    predictions: r.predictions ?? [],
+    readings: r.readings ?? [],
+  }));
+}
+
+/** Reads an exported file, JSON or CSV, and checks every round has what the history needs. */
+export function parseRoundsFile(text: string): StoredRound[] {
+  const trimmed = text.trimStart();
+  const isJson = trimmed.startsWith("{") || trimmed.startsWith("[");
+  const rounds = isJson ? roundsFromJson(trimmed) : roundsFromCsv(trimmed);
+
+  rounds.forEach((round, i) => {
+    if (!round.id || !round.sessionId || !Number.isFinite(round.timestamp) || !round.player) {
+      throw new Error(`round ${i + 1} is missing its id, session, timestamp or gesture`);
+    }
+  });
+  return rounds;
+}
+
+/**
+ * Rounds from `incoming` that aren't in `existing` yet. Rounds keep their id
+ * across exports, so re-importing a file (or two overlapping ones) is a no-op.
+ */
+export function newRounds(existing: StoredRound[], incoming: StoredRound[]): StoredRound[] {
+  const seen = new Set(existing.map((r) => r.id));
+  const added: StoredRound[] = [];
+  for (const round of incoming) {
+    if (seen.has(round.id)) continue;
+    seen.add(round.id);
+    added.push(round);
+  }
+  return added;
+}
+
+/**
+ * Merges an exported file into a profile's history, skipping rounds already
+ * there. Profile ids are local to each machine, so imported rounds are
+ * handed to the profile doing the import.
+ */
+export async function importRounds(
+  text: string,
+  profileId: string
+): Promise<{ added: number; skipped: number }> {
+  const incoming = parseRoundsFile(text).map((round) => ({ ...round, profileId }));
+  const added = newRounds(await getRounds(), incoming);
+  if (added.length > 0) await saveRounds(added);
+  return { added: added.length, skipped: incoming.length - added.length };
+}
@@ -0,0 +1,198 @@
+import type { WorkerRequest, WorkerResponse } from "@/workers/inferenceProtocol";
+import type { BackendName } from "./backends";
+import type { EngineMemory, EngineModelInfo } from "./inferenceEngine";
+import type { LoadProgress, ModelArchive, ModelSource } from "./modelArchive";
+import type { FrameView } from "./preprocess";
+import type { Saliency } from "./saliency";
+import type { BackendPreference } from "./settings";
+import type { TrainingEpoch, TrainingOptions, TrainingSample } from "./training";
+
+/**
+ * Main-thread side of the inference worker. Model loading and predictions
+ * run in the worker so the game animations never wait on tf.js; browsers
+ * without OffscreenCanvas fall back to running the same engine inline.
+ */
+
+type Pending = {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: LoadProgress) => void;
+  onEpoch?: (epoch: TrainingEpoch) => void;
+};
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, Pending>();
+const crashListeners = new Set<(message: string) => void>();
+
+function supportsWorker() {
+  return (
+    typeof Worker !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined" &&
+    typeof createImageBitmap !== "undefined"
+  );
+}
+
+function handleMessage(event: MessageEvent<WorkerResponse>) {
+  const message = event.data;
+  const request = pending.get(message.id);
+  if (!request) return;
+
+  switch (message.type) {
+    case "progress":
+      request.onProgress?.(message.progress);
+      return;
+    case "epoch":
+      request.onEpoch?.(message.epoch);
+      return;
+    case "loaded":
+      request.resolve(message.info);
+      break;
+    case "backend":
+      request.resolve(message.backend);
+      break;
+    case "prediction":
+      request.resolve(message.probabilities);
+      break;
+    case "saliency":
+      request.resolve(message.saliency);
+      break;
+    case "memory":
+      request.resolve(message.memory);
+      break;
+    case "archive":
+      request.resolve(message.archive);
+      break;
+    case "error":
+      request.reject(new Error(message.message));
+      break;
+  }
+  pending.delete(message.id);
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL("../workers/inference.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.onmessage = handleMessage;
+    worker.onerror = (event) => {
+      // A crashed worker loses its model: fail everything in flight and
+      // start a fresh worker on the next request.
+      const message = event.message || "Inference worker crashed";
+      for (const request of pending.values()) {
+        request.reject(new Error(message));
+      }
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+      crashListeners.forEach((listener) => listener(message));
+    };
+  }
+  return worker;
+}
+
+function send<T>(
+  message: WorkerRequest,
+  transfer: Transferable[] = [],
+  callbacks: Pick<Pending, "onProgress" | "onEpoch"> = {}
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    pending.set(message.id, {
+      resolve: resolve as (value: unknown) => void,
+      reject,
+      ...callbacks,
+    });
+    getWorker().postMessage(message, transfer);
+  });
+}
+
+export async function loadModel(
+  source: ModelSource | string,
+  backend: BackendPreference,
+  onProgress?: (progress: LoadProgress) => void
+): Promise<EngineModelInfo> {
+  if (!supportsWorker()) {
+    const engine = await import("./inferenceEngine");
+    return engine.loadEngineModel(source, backend, onProgress);
+  }
+  return send<EngineModelInfo>(
+    { type: "load", id: nextId++, source, backend },
+    [],
+    { onProgress }
+  );
+}
+
+/** Trains a new head on the samples and makes it the active model (see lib/training). */
+export async function train(
+  samples: TrainingSample[],
+  options: TrainingOptions,
+  onEpoch?: (epoch: TrainingEpoch) => void
+): Promise<EngineModelInfo> {
+  if (!supportsWorker()) {
+    const engine = await import("./inferenceEngine");
+    return engine.trainEngineModel(samples, options, onEpoch);
+  }
+  return send<EngineModelInfo>(
+    { type: "train", id: nextId++, samples, options },
+    [],
+    { onEpoch }
+  );
+}
+
+export async function setBackend(backend: BackendPreference): Promise<BackendName> {
+  if (!supportsWorker()) {
+    const engine = await import("./inferenceEngine");
+    return engine.switchBackend(backend);
+  }
+  return send<BackendName>({ type: "backend", id: nextId++, backend });
+}
+
+/** Class probabilities for the current video frame, in metadata label order. */
+export async function predict(video: HTMLVideoElement, view: FrameView): Promise<number[]> {
+  if (!supportsWorker()) {
+    const engine = await import("./inferenceEngine");
+    return engine.predictFrame(video, view);
+  }
+  const frame = await createImageBitmap(video);
+  return send<number[]>({ type: "predict", id: nextId++, frame, view }, [frame]);
+}
+
+/** What the model looks at in the current video frame (see lib/saliency). */
+export async function explain(video: HTMLVideoElement, view: FrameView): Promise<Saliency | null> {
+  if (!supportsWorker()) {
+    const engine = await import("./inferenceEngine");
+    return engine.explainFrame(video, view);
+  }
+  const frame = await createImageBitmap(video);
+  return send<Saliency | null>({ type: "explain", id: nextId++, frame, view }, [frame]);
+}
+
+/** The active model's topology, weights and metadata. */
+export async function exportModel(): Promise<ModelArchive> {
+  if (!supportsWorker()) {
+    const engine = await import("./inferenceEngine");
+    return engine.exportEngineModel();
+  }
+  return send<ModelArchive>({ type: "export", id: nextId++ });
+}
+
+/**
+ * Called when the worker dies. The worker started for the next request has
+ * no model, so the model has to be loaded again.
+ */
+export function subscribeWorkerCrash(listener: (message: string) => void) {
+  crashListeners.add(listener);
+  return () => {
+    crashListeners.delete(listener);
+  };
+}
+
+/** tf.memory() of whichever thread runs the model. */
+export async function getMemory(): Promise<EngineMemory> {
+  if (!supportsWorker()) {
+    const engine = await import("./inferenceEngine");
+    return engine.getEngineMemory();
+  }
+  return send<EngineMemory>({ type: "memory", id: nextId++ });
+}
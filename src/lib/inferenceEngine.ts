@@ -0,0 +1,252 @@
+import type { LayersModel, Tensor, Tensor2D } from "@tensorflow/tfjs";
+import {
+  buildModel,
+  readModelArchive,
+  serializeModel,
+  warmUpModel,
+  type ModelArchive,
+  type ModelMetadata,
+  type ModelSource,
+  type ProgressCallback,
+} from "./modelArchive";
+import { activateBackend, type BackendName } from "./backends";
+import { loadModelFromUrl, type LoadedModel } from "./modelCache";
+import {
+  getPreprocessConfig,
+  preprocessPixels,
+  TEACHABLE_MACHINE_PREPROCESS,
+  type FrameView,
+  type PreprocessConfig,
+} from "./preprocess";
+import { computeSaliency, type Saliency } from "./saliency";
+import type { BackendPreference } from "./settings";
+import {
+  featureExtractor,
+  trainHead,
+  trainingLabels,
+  type TrainingEpoch,
+  type TrainingOptions,
+  type TrainingSample,
+} from "./training";
+
+/**
+ * Owns the tf.js model and runs inference. Lives inside the inference worker
+ * and is only imported on the main thread when workers are unavailable.
+ */
+
+// We load the model manually using tf.js since @teachablemachine/image
+// has compatibility issues. We'll use a simpler approach with tf.js directly.
+let modelInstance: LayersModel | null = null;
+let modelMetadata: ModelMetadata | null = null;
+let preprocessConfig: PreprocessConfig = TEACHABLE_MACHINE_PREPROCESS;
+let frameCanvas: OffscreenCanvas | null = null;
+let activeBackend: BackendName | null = null;
+let activePreference: BackendPreference | null = null;
+
+export type FrameSource = ImageBitmap | HTMLVideoElement | HTMLImageElement;
+
+/** Subset of tf.memory() shown in the debug overlay. */
+export type EngineMemory = {
+  numTensors: number;
+  numBytes: number;
+};
+
+export type EngineModelInfo = {
+  metadata: ModelMetadata;
+  backend: BackendName;
+  preprocess: PreprocessConfig;
+};
+
+/**
+ * Activates the preferred tf.js backend (with fallbacks). Weights of an
+ * already loaded model move to the new backend on first use, so the model
+ * is warmed up again instead of being reloaded.
+ */
+export async function switchBackend(preference: BackendPreference): Promise<BackendName> {
+  if (activeBackend && activePreference === preference) return activeBackend;
+
+  const tf = await import("@tensorflow/tfjs");
+  activeBackend = await activateBackend(tf, preference);
+  activePreference = preference;
+  if (modelInstance) await warmUpModel(modelInstance);
+  return activeBackend;
+}
+
+export async function loadEngineModel(
+  source: ModelSource | string,
+  backend: BackendPreference,
+  onProgress?: ProgressCallback
+): Promise<EngineModelInfo> {
+  await switchBackend(backend);
+
+  let loaded: LoadedModel;
+  if (typeof source === "string") {
+    loaded = await loadModelFromUrl(source, onProgress);
+  } else {
+    // Read and validate everything before touching the active model, so
+    // a malformed upload leaves the previous model playable.
+    const archive = await readModelArchive(source, onProgress);
+    loaded = {
+      model: await buildModel(archive, onProgress),
+      metadata: archive.metadata,
+      fromCache: false,
+    };
+  }
+  return activateModel(loaded.model, loaded.metadata, onProgress);
+}
+
+async function activateModel(
+  model: LayersModel,
+  metadata: ModelMetadata,
+  onProgress?: ProgressCallback
+): Promise<EngineModelInfo> {
+  try {
+    await warmUpModel(model, onProgress);
+  } catch (err) {
+    // The previous model stays active; don't leave the new weights on the backend
+    model.dispose();
+    throw err;
+  }
+
+  modelInstance?.dispose();
+  modelInstance = model;
+  modelMetadata = metadata;
+  preprocessConfig = getPreprocessConfig(metadata);
+  return { metadata, backend: activeBackend, preprocess: preprocessConfig };
+}
+
+// ImageBitmaps are drawn onto an OffscreenCanvas and read back as ImageData,
+// which tf.browser.fromPixels accepts on every backend inside a worker.
+function toPixelSource(frame: FrameSource): ImageData | FrameSource {
+  if (typeof ImageBitmap === "undefined" || !(frame instanceof ImageBitmap)) {
+    return frame;
+  }
+  if (!frameCanvas) frameCanvas = new OffscreenCanvas(frame.width, frame.height);
+  frameCanvas.width = frame.width;
+  frameCanvas.height = frame.height;
+  const ctx = frameCanvas.getContext("2d", { willReadFrequently: true });
+  ctx.drawImage(frame, 0, 0);
+  return ctx.getImageData(0, 0, frame.width, frame.height);
+}
+
+/**
+ * Returns the class probabilities for one frame, in metadata label order.
+ * `view` (mirroring and the hand area) overrides the model's preprocessing.
+ */
+export async function predictFrame(frame: FrameSource, view?: FrameView): Promise<number[]> {
+  if (!modelInstance) throw new Error("no model loaded");
+
+  const tf = await import("@tensorflow/tfjs");
+  const pixels = toPixelSource(frame);
+
+  // Preprocess as declared by the model metadata (crop, size, range)
+  const config = { ...preprocessConfig, ...view };
+  const tensor = tf.tidy(() => preprocessPixels(tf, tf.browser.fromPixels(pixels), config));
+
+  const prediction = modelInstance.predict(tensor) as Tensor;
+  const probabilities = await prediction.data();
+  tensor.dispose();
+  prediction.dispose();
+
+  return Array.from(probabilities);
+}
+
+/** Saliency of the top class for one frame, preprocessed exactly like predictFrame. */
+export async function explainFrame(frame: FrameSource, view?: FrameView): Promise<Saliency> {
+  if (!modelInstance) throw new Error("no model loaded");
+
+  const tf = await import("@tensorflow/tfjs");
+  const pixels = toPixelSource(frame);
+  const config = { ...preprocessConfig, ...view };
+  const input = tf.tidy(() => preprocessPixels(tf, tf.browser.fromPixels(pixels), config));
+  try {
+    return await computeSaliency(tf, modelInstance, input);
+  } finally {
+    input.dispose();
+  }
+}
+
+// Workers have no Image element; bitmaps are read back through toPixelSource
+async function decodeImage(blob: Blob): Promise<FrameSource> {
+  if (typeof OffscreenCanvas !== "undefined" && typeof createImageBitmap !== "undefined") {
+    return createImageBitmap(blob);
+  }
+
+  const image = new Image();
+  image.src = URL.createObjectURL(blob);
+  try {
+    await image.decode();
+  } finally {
+    URL.revokeObjectURL(image.src);
+  }
+  return image;
+}
+
+/**
+ * Retrains the active model's head on recorded samples and makes the result
+ * the active model. Samples already are what the model sees (mirrored and
+ * cut to the hand area), so only resizing and normalization apply to them.
+ */
+export async function trainEngineModel(
+  samples: TrainingSample[],
+  options: TrainingOptions,
+  onEpoch?: (epoch: TrainingEpoch) => void
+): Promise<EngineModelInfo> {
+  if (!modelInstance) throw new Error("no model loaded to train from");
+
+  const tf = await import("@tensorflow/tfjs");
+  const base = featureExtractor(modelInstance);
+  const labels = trainingLabels(
+    samples.map((s) => s.className),
+    modelMetadata?.labels ?? []
+  );
+  const config = { ...preprocessConfig, mirror: false, roi: null };
+
+  const features: Tensor2D[] = [];
+  try {
+    for (const sample of samples) {
+      const image = await decodeImage(sample.image);
+      const pixels = toPixelSource(image);
+      features.push(
+        tf.tidy(() => {
+          const input = preprocessPixels(tf, tf.browser.fromPixels(pixels), config);
+          return (base.predict(input) as Tensor).reshape([1, -1]) as Tensor2D;
+        })
+      );
+      if ("close" in image) image.close();
+    }
+
+    const trained = await trainHead(
+      tf,
+      base,
+      features,
+      samples.map((s) => labels.indexOf(s.className)),
+      labels.length,
+      options,
+      onEpoch
+    );
+    const metadata: ModelMetadata = {
+      ...modelMetadata,
+      labels,
+      modelName: "treinado-no-navegador",
+      timeStamp: new Date().toISOString(),
+    };
+    const model = await buildModel({ ...trained, metadata });
+    return await activateModel(model, metadata);
+  } finally {
+    tf.dispose(features);
+  }
+}
+
+/** The active model with its metadata, ready to be zipped (see writeModelArchive). */
+export async function exportEngineModel(): Promise<ModelArchive> {
+  if (!modelInstance) throw new Error("no model loaded to export");
+  return { ...(await serializeModel(modelInstance)), metadata: modelMetadata };
+}
+
+/** Tensor counts of the engine's tf.js instance, to spot leaks while playing. */
+export async function getEngineMemory(): Promise<EngineMemory> {
+  const tf = await import("@tensorflow/tfjs");
+  const { numTensors, numBytes } = tf.memory();
+  return { numTensors, numBytes };
+}
@@ -0,0 +1,205 @@
+/**
+ * Where frames come from. The live camera is the default; a video file, a
+ * sequence of images or a synthetic animation can replace it to reproduce
+ * misclassifications, demo without a camera, or drive automated tests
+ * (`?source=video&url=/clips/rock.webm`). Every source is painted onto a
+ * canvas whose captured stream feeds the same <video> the camera uses, so
+ * the rest of the app can't tell them apart.
+ */
+
+export type InputSelection =
+  | { kind: "camera" }
+  | { kind: "video"; url: string; name: string }
+  | { kind: "images"; urls: string[]; name: string }
+  | { kind: "synthetic" };
+
+export type InputSource = {
+  stream: MediaStream;
+  stop: () => void;
+};
+
+/** How long each image of a sequence stays on screen. */
+export const IMAGE_INTERVAL_MS = 1000;
+
+const SYNTHETIC_SIZE = 400;
+const CAPTURE_FPS = 30;
+
+export const CAMERA_INPUT: InputSelection = { kind: "camera" };
+
+/** Reads a source from the page URL; anything unrecognized keeps the camera. */
+export function parseInputSourceQuery(search: string): InputSelection | null {
+  const params = new URLSearchParams(search);
+  const urls = params.getAll("url").filter(Boolean);
+  switch (params.get("source")) {
+    case "synthetic":
+      return { kind: "synthetic" };
+    case "video":
+      return urls.length > 0 ? { kind: "video", url: urls[0], name: urls[0] } : null;
+    case "images":
+      return urls.length > 0 ? { kind: "images", urls, name: `${urls.length} imagens` } : null;
+    default:
+      return null;
+  }
+}
+
+/** Images from a file or folder picker, in natural name order (frame2 before frame10). */
+export function sortImageFiles(files: File[]): File[] {
+  const path = (file: File) => file.webkitRelativePath || file.name;
+  return files
+    .filter((file) => file.type.startsWith("image/"))
+    .sort((a, b) => path(a).localeCompare(path(b), undefined, { numeric: true }));
+}
+
+/** The image on screen `elapsedMs` into a looping sequence. */
+export function frameIndexAt(elapsedMs: number, intervalMs: number, count: number): number {
+  if (count === 0) return 0;
+  return Math.floor(Math.max(0, elapsedMs) / intervalMs) % count;
+}
+
+// Redraws the canvas every animation frame and exposes it as a stream.
+function canvasSource(
+  width: number,
+  height: number,
+  draw: (ctx: CanvasRenderingContext2D, now: number) => void,
+  onStop?: () => void
+): InputSource {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  let frame = 0;
+  let running = true;
+
+  const tick = (now: number) => {
+    if (!running) return;
+    draw(ctx, now);
+    frame = requestAnimationFrame(tick);
+  };
+  // Paint once up front so the stream never starts blank
+  tick(performance.now());
+
+  const stream = canvas.captureStream(CAPTURE_FPS);
+  return {
+    stream,
+    stop: () => {
+      running = false;
+      cancelAnimationFrame(frame);
+      stream.getTracks().forEach((t) => t.stop());
+      onStop?.();
+    },
+  };
+}
+
+async function openVideo(url: string): Promise<InputSource> {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.loop = true;
+  video.playsInline = true;
+  video.src = url;
+  await video.play();
+
+  return canvasSource(
+    video.videoWidth,
+    video.videoHeight,
+    (ctx) => ctx.drawImage(video, 0, 0),
+    () => {
+      video.pause();
+      video.removeAttribute("src");
+      video.load();
+    }
+  );
+}
+
+async function openImages(urls: string[]): Promise<InputSource> {
+  const images = await Promise.all(
+    urls.map(async (url) => {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+      return image;
+    })
+  );
+  if (images.length === 0) throw new Error("no images to play");
+
+  // Every image is scaled to the size of the first one
+  const { naturalWidth: width, naturalHeight: height } = images[0];
+  const startedAt = performance.now();
+  return canvasSource(width, height, (ctx, now) => {
+    const image = images[frameIndexAt(now - startedAt, IMAGE_INTERVAL_MS, images.length)];
+    ctx.drawImage(image, 0, 0, width, height);
+  });
+}
+
+// A moving disc over a slowly shifting background: enough motion to check
+// the pipeline end to end without any camera or recording.
+function openSynthetic(): InputSource {
+  const size = SYNTHETIC_SIZE;
+  return canvasSource(size, size, (ctx, now) => {
+    const t = now / 1000;
+    ctx.fillStyle = `hsl(${(t * 20) % 360}, 40%, 30%)`;
+    ctx.fillRect(0, 0, size, size);
+    ctx.fillStyle = "#f5d0a9";
+    ctx.beginPath();
+    const x = size / 2 + Math.cos(t) * size * 0.25;
+    const y = size / 2 + Math.sin(t) * size * 0.25;
+    ctx.arc(x, y, size * 0.15, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = "#ffffff";
+    ctx.font = "16px monospace";
+    ctx.fillText(t.toFixed(1), 12, 24);
+  });
+}
+
+/** Opens any source other than the camera, which WebcamView opens itself. */
+export function openInputSource(
+  selection: Exclude<InputSelection, { kind: "camera" }>
+): Promise<InputSource> {
+  switch (selection.kind) {
+    case "video":
+      return openVideo(selection.url);
+    case "images":
+      return openImages(selection.urls);
+    case "synthetic":
+      return Promise.resolve(openSynthetic());
+  }
+}
+
+let selection: InputSelection = parseInputSourceQuery(window.location.search) ?? CAMERA_INPUT;
+// Object URLs made for picked files, released when the source changes
+let ownedUrls: string[] = [];
+const listeners = new Set<() => void>();
+
+export function getInputSource(): InputSelection {
+  return selection;
+}
+
+export function setInputSource(next: InputSelection) {
+  ownedUrls.forEach((url) => URL.revokeObjectURL(url));
+  ownedUrls = [];
+  selection = next;
+  listeners.forEach((listener) => listener());
+}
+
+/** Plays a local video file in place of the camera. */
+export function selectVideoFile(file: File) {
+  const url = URL.createObjectURL(file);
+  setInputSource({ kind: "video", url, name: file.name });
+  ownedUrls = [url];
+}
+
+/** Cycles through the images of a folder (or a multi-file pick) in place of the camera. */
+export function selectImageFiles(files: File[]) {
+  const images = sortImageFiles(files);
+  if (images.length === 0) throw new Error("no image files selected");
+  const urls = images.map((file) => URL.createObjectURL(file));
+  const folder = images[0].webkitRelativePath.split("/")[0];
+  setInputSource({ kind: "images", urls, name: folder || `${urls.length} imagens` });
+  ownedUrls = urls;
+}
+
+export function subscribeInputSource(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
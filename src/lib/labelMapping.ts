@@ -0,0 +1,75 @@
+import type { GameChoice } from "@/hooks/useTeachableModel";
+import { IDLE, type GestureDef, type RuleEngine } from "./rules";
+
+/**
+ * Maps the model's class names to game gestures. Labels are matched against
+ * each gesture's id, display name and aliases, so models whose classes are
+ * called "scissors", "Pedra" or "Fundo" work without setup; anything else
+ * ("Class 1") has to be mapped by hand in the editor.
+ */
+
+/** Model label -> gesture id or "idle". */
+export type LabelMapping = Record<string, GameChoice>;
+
+export type ResolvedLabelMapping = {
+  mapping: LabelMapping;
+  /** Model labels that don't resolve to any gesture. */
+  unmapped: string[];
+  /** Gestures of the rule set that no model label resolves to. */
+  missing: GameChoice[];
+};
+
+/** Case, accents and separators don't matter: "Mão_Aberta" ~ "mao aberta". */
+export function normalizeLabel(label: string): string {
+  return label
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[\s_-]+/g, " ")
+    .trim();
+}
+
+function namesOf(gesture: GestureDef): string[] {
+  return [gesture.id, gesture.label, ...(gesture.aliases ?? [])].map(normalizeLabel);
+}
+
+/** The gesture a model label names, through ids, display names and aliases. */
+export function matchAlias(label: string, rules: RuleEngine): GameChoice | null {
+  const name = normalizeLabel(label);
+  const gesture = [IDLE, ...rules.ruleSet.gestures].find((g) => namesOf(g).includes(name));
+  return gesture ? gesture.id : null;
+}
+
+/**
+ * Resolves every model label: a manual override wins when it points at a
+ * gesture of the current rule set, otherwise the aliases are tried.
+ */
+export function resolveLabelMapping(
+  labels: string[],
+  rules: RuleEngine,
+  overrides: LabelMapping
+): ResolvedLabelMapping {
+  const valid = new Set([IDLE.id, ...rules.choices]);
+  const mapping: LabelMapping = {};
+  const unmapped: string[] = [];
+
+  for (const label of labels) {
+    const override = overrides[label];
+    const gesture = override && valid.has(override) ? override : matchAlias(label, rules);
+    if (gesture) mapping[label] = gesture;
+    else unmapped.push(label);
+  }
+
+  const mapped = new Set(Object.values(mapping));
+  const missing = rules.choices.filter((choice) => !mapped.has(choice));
+  return { mapping, unmapped, missing };
+}
+
+/**
+ * The gesture for a model label. Play only starts with every label mapped,
+ * but the rules or the mapping can still change mid-round; a label left
+ * unmapped then counts as idle instead of failing the capture.
+ */
+export function toGesture(mapping: LabelMapping, label: string): GameChoice {
+  return mapping[label] ?? IDLE.id;
+}
@@ -0,0 +1,89 @@
+/**
+ * Match formats. A match is a sequence of rounds that ends when the format
+ * says so; the session keeps going across matches.
+ */
+
+export type MatchFormat =
+  | { kind: "endless" }
+  | { kind: "best-of"; rounds: number }
+  | { kind: "first-to"; target: number }
+  | { kind: "fixed-rounds"; rounds: number }
+  | { kind: "blitz"; durationMs: number };
+
+export type MatchFormatId =
+  | "endless"
+  | "best-of-3"
+  | "best-of-5"
+  | "best-of-7"
+  | "first-to-3"
+  | "first-to-5"
+  | "fixed-5"
+  | "fixed-10"
+  | "blitz-60"
+  | "blitz-120";
+
+export type MatchWinner = "player" | "computer" | "draw";
+
+export type MatchScore = {
+  player: number;
+  computer: number;
+  /** Rounds played, draws included. */
+  rounds: number;
+};
+
+export const MATCH_FORMATS: { id: MatchFormatId; label: string; format: MatchFormat }[] = [
+  { id: "endless", label: "Livre", format: { kind: "endless" } },
+  { id: "best-of-3", label: "Melhor de 3", format: { kind: "best-of", rounds: 3 } },
+  { id: "best-of-5", label: "Melhor de 5", format: { kind: "best-of", rounds: 5 } },
+  { id: "best-of-7", label: "Melhor de 7", format: { kind: "best-of", rounds: 7 } },
+  { id: "first-to-3", label: "Primeiro a 3", format: { kind: "first-to", target: 3 } },
+  { id: "first-to-5", label: "Primeiro a 5", format: { kind: "first-to", target: 5 } },
+  { id: "fixed-5", label: "5 rodadas", format: { kind: "fixed-rounds", rounds: 5 } },
+  { id: "fixed-10", label: "10 rodadas", format: { kind: "fixed-rounds", rounds: 10 } },
+  { id: "blitz-60", label: "Blitz 1 min", format: { kind: "blitz", durationMs: 60_000 } },
+  { id: "blitz-120", label: "Blitz 2 min", format: { kind: "blitz", durationMs: 120_000 } },
+];
+
+export function getMatchFormat(id: MatchFormatId): MatchFormat {
+  return (MATCH_FORMATS.find((f) => f.id === id) ?? MATCH_FORMATS[0]).format;
+}
+
+function leader(score: MatchScore): MatchWinner {
+  if (score.player > score.computer) return "player";
+  if (score.computer > score.player) return "computer";
+  return "draw";
+}
+
+/** Wins needed to take the match, or null when the format isn't win-based. */
+export function getWinsNeeded(format: MatchFormat): number | null {
+  if (format.kind === "best-of") return Math.floor(format.rounds / 2) + 1;
+  if (format.kind === "first-to") return format.target;
+  return null;
+}
+
+/**
+ * Decides whether the match is over after a round. Returns the winner, or
+ * null while the match goes on. Drawn rounds don't count towards a best-of,
+ * which is decided by wins like a first-to.
+ */
+export function getMatchOutcome(
+  format: MatchFormat,
+  score: MatchScore,
+  elapsedMs: number
+): MatchWinner | null {
+  const winsNeeded = getWinsNeeded(format);
+  if (winsNeeded !== null) {
+    if (score.player >= winsNeeded) return "player";
+    if (score.computer >= winsNeeded) return "computer";
+    return null;
+  }
+
+  switch (format.kind) {
+    case "fixed-rounds":
+      return score.rounds >= format.rounds ? leader(score) : null;
+    case "blitz":
+      return elapsedMs >= format.durationMs ? leader(score) : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,303 @@
+import JSZip from "jszip";
+import type { io, LayersModel, serialization, Tensor } from "@tensorflow/tfjs";
+
+export type ModelMetadata = {
+  labels: string[];
+  imageSize?: number;
+  modelName?: string;
+  timeStamp?: string;
+  tmVersion?: string;
+  [key: string]: unknown;
+};
+
+export type ModelArchive = {
+  modelTopology: serialization.ConfigDict;
+  metadata: ModelMetadata;
+  weightSpecs: io.WeightsManifestEntry[];
+  weightData: ArrayBuffer;
+};
+
+export type LoadStage =
+  | "checking-cache"
+  | "downloading"
+  | "unzipping"
+  | "parsing"
+  | "uploading"
+  | "warming-up";
+
+/** `loaded`/`total` are bytes while downloading and a percentage while unzipping. */
+export type LoadProgress = {
+  stage: LoadStage;
+  loaded?: number;
+  total?: number;
+};
+
+export type ProgressCallback = (progress: LoadProgress) => void;
+
+/**
+ * A Teachable Machine export picked by the user: the zip itself, or the
+ * three loose files of the export.
+ */
+export type ModelSource = Blob | File[];
+
+const REQUIRED_FILES = ["model.json", "metadata.json"];
+
+const DTYPE_BYTES: Record<string, number> = {
+  float32: 4,
+  int32: 4,
+  bool: 1,
+  uint8: 1,
+  float16: 2,
+};
+
+type ArchiveReader = {
+  text: (name: string) => Promise<string | null>;
+  buffer: (
+    name: string,
+    onUpdate?: (percent: number) => void
+  ) => Promise<ArrayBuffer | null>;
+};
+
+function zipReader(zip: JSZip): ArchiveReader {
+  // Exports re-zipped by hand often end up inside a top-level folder.
+  const find = (name: string) =>
+    zip.file(name) ?? zip.file(new RegExp(`(^|/)${name.replace(/\./g, "\\.")}$`))[0] ?? null;
+
+  return {
+    text: async (name) => (await find(name)?.async("string")) ?? null,
+    buffer: async (name, onUpdate) =>
+      (await find(name)?.async("arraybuffer", (m) => onUpdate?.(m.percent))) ?? null,
+  };
+}
+
+function filesReader(files: File[]): ArchiveReader {
+  const byName = new Map(files.map((f) => [f.name, f]));
+  return {
+    text: async (name) => (byName.has(name) ? byName.get(name).text() : null),
+    buffer: async (name) =>
+      byName.has(name) ? byName.get(name).arrayBuffer() : null,
+  };
+}
+
+function parseJson(text: string, name: string) {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`${name} is not valid JSON`);
+  }
+}
+
+async function readArchive(
+  reader: ArchiveReader,
+  onProgress?: ProgressCallback
+): Promise<ModelArchive> {
+  for (const name of REQUIRED_FILES) {
+    if ((await reader.text(name)) === null) {
+      throw new Error(`${name} not found in model files`);
+    }
+  }
+
+  const metadata = parseJson(await reader.text("metadata.json"), "metadata.json");
+  if (
+    !Array.isArray(metadata.labels) ||
+    metadata.labels.length === 0 ||
+    !metadata.labels.every((l: unknown) => typeof l === "string")
+  ) {
+    throw new Error("metadata.json has no class labels");
+  }
+
+  const modelJson = parseJson(await reader.text("model.json"), "model.json");
+  if (!modelJson.modelTopology) {
+    throw new Error("model.json has no modelTopology");
+  }
+  if (!Array.isArray(modelJson.weightsManifest)) {
+    throw new Error("model.json has no weightsManifest");
+  }
+
+  const weightSpecs: io.WeightsManifestEntry[] = [];
+  const weightDataArrays: ArrayBuffer[] = [];
+
+  const paths: string[] = modelJson.weightsManifest.flatMap(
+    (group: { paths?: string[] }) => group.paths ?? []
+  );
+  let pathIndex = 0;
+
+  for (const group of modelJson.weightsManifest) {
+    for (const w of group.weights ?? []) {
+      weightSpecs.push({
+        name: w.name,
+        shape: w.shape,
+        dtype: w.dtype || "float32",
+      });
+    }
+    for (const path of group.paths ?? []) {
+      const buffer = await reader.buffer(path, (percent) =>
+        onProgress?.({
+          stage: "unzipping",
+          loaded: ((pathIndex + percent / 100) / paths.length) * 100,
+          total: 100,
+        })
+      );
+      pathIndex++;
+      if (!buffer) throw new Error(`${path} not found in model files`);
+      weightDataArrays.push(buffer);
+    }
+  }
+
+  const expectedLength = weightSpecs.reduce(
+    (sum, w) =>
+      sum + w.shape.reduce((n, d) => n * d, 1) * (DTYPE_BYTES[w.dtype] ?? 4),
+    0
+  );
+  const weightData = concatBuffers(weightDataArrays);
+  if (weightData.byteLength !== expectedLength) {
+    throw new Error(
+      `weights are ${weightData.byteLength} bytes but model.json expects ${expectedLength}`
+    );
+  }
+
+  return {
+    modelTopology: modelJson.modelTopology,
+    metadata,
+    weightSpecs,
+    weightData,
+  };
+}
+
+export function concatBuffers(buffers: ArrayBuffer[]): ArrayBuffer {
+  const totalLength = buffers.reduce((sum, buf) => sum + buf.byteLength, 0);
+  const data = new ArrayBuffer(totalLength);
+  const view = new Uint8Array(data);
+  let offset = 0;
+  for (const buf of buffers) {
+    view.set(new Uint8Array(buf), offset);
+    offset += buf.byteLength;
+  }
+  return data;
+}
+
+async function openZip(blob: Blob): Promise<JSZip> {
+  try {
+    return await JSZip.loadAsync(blob);
+  } catch {
+    throw new Error("file is not a valid zip archive");
+  }
+}
+
+/**
+ * Reads and validates a Teachable Machine export (model.json, metadata.json
+ * and the weight files) without touching tf.js, so a bad upload can be
+ * rejected before the active model is replaced.
+ */
+export async function readModelArchive(
+  source: ModelSource,
+  onProgress?: ProgressCallback
+): Promise<ModelArchive> {
+  if (Array.isArray(source)) {
+    // A single dropped .zip arrives as a one-element file list.
+    if (source.length === 1 && source[0].name.toLowerCase().endsWith(".zip")) {
+      onProgress?.({ stage: "unzipping", loaded: 0, total: 100 });
+      return readArchive(zipReader(await openZip(source[0])), onProgress);
+    }
+    return readArchive(filesReader(source), onProgress);
+  }
+
+  onProgress?.({ stage: "unzipping", loaded: 0, total: 100 });
+  return readArchive(zipReader(await openZip(source)), onProgress);
+}
+
+/** A model's topology and weights as tf.io saves them, weights in one buffer. */
+export async function serializeModel(model: LayersModel): Promise<Omit<ModelArchive, "metadata">> {
+  const tf = await import("@tensorflow/tfjs");
+
+  let artifacts: io.ModelArtifacts;
+  await model.save(
+    tf.io.withSaveHandler(async (saved) => {
+      artifacts = saved;
+      return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: "JSON" } };
+    })
+  );
+  const { weightData } = artifacts;
+  return {
+    modelTopology: artifacts.modelTopology as serialization.ConfigDict,
+    weightSpecs: artifacts.weightSpecs,
+    weightData: Array.isArray(weightData) ? concatBuffers(weightData) : weightData,
+  };
+}
+
+/**
+ * Zips an archive in the Teachable Machine export layout (model.json,
+ * weights.bin and metadata.json), so it loads back here, in
+ * tf.loadLayersModel and in the Teachable Machine libraries.
+ */
+export async function writeModelArchive(archive: ModelArchive): Promise<Blob> {
+  const zip = new JSZip();
+  zip.file(
+    "model.json",
+    JSON.stringify({
+      modelTopology: archive.modelTopology,
+      weightsManifest: [{ paths: ["weights.bin"], weights: archive.weightSpecs }],
+    })
+  );
+  zip.file("weights.bin", archive.weightData);
+  zip.file("metadata.json", JSON.stringify(archive.metadata));
+  return zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+}
+
+/**
+ * Builds the tf.js model from a validated archive, checking that the output
+ * layer matches the labels in metadata.json.
+ */
+export async function buildModel(
+  archive: ModelArchive,
+  onProgress?: ProgressCallback
+): Promise<LayersModel> {
+  const tf = await import("@tensorflow/tfjs");
+
+  // Same steps as tf.loadLayersModel(tf.io.fromMemory(...)), split up so
+  // topology parsing and weight upload can be reported separately.
+  onProgress?.({ stage: "parsing" });
+  const model = await tf.models.modelFromJSON({
+    modelTopology: archive.modelTopology,
+  });
+
+  onProgress?.({ stage: "uploading" });
+  const weights = tf.io.decodeWeights(archive.weightData, archive.weightSpecs);
+  try {
+    model.loadWeights(weights);
+  } catch (err) {
+    model.dispose();
+    throw err;
+  } finally {
+    tf.dispose(Object.values(weights));
+  }
+
+  const outputShape = model.outputs[0].shape;
+  const outputUnits = outputShape[outputShape.length - 1];
+  if (outputUnits !== archive.metadata.labels.length) {
+    model.dispose();
+    throw new Error(
+      `model has ${outputUnits} outputs but metadata.json lists ${archive.metadata.labels.length} labels`
+    );
+  }
+
+  return model;
+}
+
+/**
+ * Runs one prediction on a blank frame so shader compilation and texture
+ * uploads happen now instead of on the player's first round.
+ */
+export async function warmUpModel(
+  model: LayersModel,
+  onProgress?: ProgressCallback
+): Promise<void> {
+  const tf = await import("@tensorflow/tfjs");
+  onProgress?.({ stage: "warming-up" });
+
+  const [, ...inputShape] = model.inputs[0].shape;
+  const input = tf.zeros([1, ...inputShape]);
+  const output = model.predict(input) as Tensor;
+  await output.data();
+  tf.dispose([input, output]);
+}
@@ -0,0 +1,196 @@
+import type { LayersModel } from "@tensorflow/tfjs";
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+import {
+  buildModel,
+  readModelArchive,
+  type ModelMetadata,
+  type ProgressCallback,
+} from "./modelArchive";
+
+const DB_NAME = "rps-model-cache";
+const DB_VERSION = 1;
+const STORE = "entries";
+const TF_STORAGE_PREFIX = "indexeddb://rps-model/";
+// How long a cached zip is trusted when the server sends no ETag or Last-Modified
+const UNVALIDATED_TTL_MS = 60 * 60 * 1000;
+
+/** What we remember about a model zip that was already downloaded and parsed. */
+type CacheEntry = {
+  url: string;
+  hash: string | null;
+  etag: string | null;
+  lastModified: string | null;
+  /** When the zip was last downloaded; entries cached before this existed lack it. */
+  checkedAt?: number;
+  modelKey: string;
+  metadata: ModelMetadata;
+};
+
+export type LoadedModel = {
+  model: LayersModel;
+  metadata: ModelMetadata;
+  fromCache: boolean;
+};
+
+/** Identifies a trained model by the version info Teachable Machine writes to metadata.json. */
+export function getModelKey(metadata: ModelMetadata): string {
+  return [
+    metadata.modelName ?? "model",
+    metadata.tmVersion ?? "unknown",
+    metadata.timeStamp ?? "unknown",
+  ].join("@");
+}
+
+function openCache() {
+  return openDatabase(DB_NAME, DB_VERSION, (db) => {
+    db.createObjectStore(STORE, { keyPath: "url" });
+  });
+}
+
+async function getEntry(url: string): Promise<CacheEntry | null> {
+  const db = await openCache();
+  try {
+    const entry = await requestToPromise(
+      db.transaction(STORE).objectStore(STORE).get(url)
+    );
+    return (entry as CacheEntry) ?? null;
+  } finally {
+    db.close();
+  }
+}
+
+async function putEntry(entry: CacheEntry): Promise<void> {
+  const db = await openCache();
+  try {
+    const tx = db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).put(entry);
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+}
+
+async function sha256(data: ArrayBuffer): Promise<string | null> {
+  // crypto.subtle only exists in secure contexts; without it every download is re-parsed.
+  if (typeof crypto === "undefined" || !crypto.subtle) return null;
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function loadFromStorage(entry: CacheEntry): Promise<LayersModel | null> {
+  try {
+    const tf = await import("@tensorflow/tfjs");
+    return await tf.loadLayersModel(TF_STORAGE_PREFIX + entry.modelKey);
+  } catch (err) {
+    console.warn("Cached model could not be loaded, downloading again:", err);
+    return null;
+  }
+}
+
+/** Reads the response body chunk by chunk so download progress can be reported. */
+async function readWithProgress(
+  response: Response,
+  onProgress?: ProgressCallback
+): Promise<ArrayBuffer> {
+  const total = Number(response.headers.get("content-length")) || undefined;
+  if (!response.body) return response.arrayBuffer();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  onProgress?.({ stage: "downloading", loaded, total });
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.byteLength;
+    onProgress?.({ stage: "downloading", loaded, total });
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Asks the server whether the zip changed since it was cached. Returns
+ * `true` when it is unchanged or the server cannot be reached (offline).
+ * Without validators to compare, the entry stays fresh for a while after
+ * each download instead of being fetched again on every visit.
+ */
+async function isEntryFresh(entry: CacheEntry): Promise<boolean> {
+  let response: Response;
+  try {
+    response = await fetch(entry.url, { method: "HEAD", cache: "no-cache" });
+  } catch {
+    return true;
+  }
+  if (!response.ok) return false;
+
+  const etag = response.headers.get("etag");
+  const lastModified = response.headers.get("last-modified");
+  if (etag && entry.etag) return etag === entry.etag;
+  if (lastModified && entry.lastModified) return lastModified === entry.lastModified;
+  return Date.now() - (entry.checkedAt ?? 0) < UNVALIDATED_TTL_MS;
+}
+
+/**
+ * Loads the model zip at `url`, reusing the copy persisted in IndexedDB
+ * whenever the zip is unchanged. The cache is best effort: any storage
+ * failure falls back to a regular download.
+ */
+export async function loadModelFromUrl(
+  url: string,
+  onProgress?: ProgressCallback
+): Promise<LoadedModel> {
+  onProgress?.({ stage: "checking-cache" });
+  const entry = await getEntry(url).catch(() => null);
+
+  if (entry && (await isEntryFresh(entry))) {
+    const model = await loadFromStorage(entry);
+    if (model) return { model, metadata: entry.metadata, fromCache: true };
+  }
+
+  const response = await fetch(url, { cache: "no-cache" });
+  if (!response.ok) {
+    throw new Error(`could not download ${url} (HTTP ${response.status})`);
+  }
+  const bytes = await readWithProgress(response, onProgress);
+  const hash = await sha256(bytes);
+  const validators = {
+    etag: response.headers.get("etag"),
+    lastModified: response.headers.get("last-modified"),
+    checkedAt: Date.now(),
+  };
+
+  // Same bytes under a new ETag (e.g. a redeploy): skip unzipping and parsing.
+  if (entry && hash && entry.hash === hash) {
+    const model = await loadFromStorage(entry);
+    if (model) {
+      await putEntry({ ...entry, ...validators }).catch(() => undefined);
+      return { model, metadata: entry.metadata, fromCache: true };
+    }
+  }
+
+  const archive = await readModelArchive(new Blob([bytes]), onProgress);
+  const model = await buildModel(archive, onProgress);
+  const modelKey = getModelKey(archive.metadata);
+
+  try {
+    const tf = await import("@tensorflow/tfjs");
+    await model.save(TF_STORAGE_PREFIX + modelKey);
+    await putEntry({ url, hash, ...validators, modelKey, metadata: archive.metadata });
+    if (entry && entry.modelKey !== modelKey) {
+      await tf.io.removeModel(TF_STORAGE_PREFIX + entry.modelKey).catch(() => undefined);
+    }
+  } catch (err) {
+    console.warn("Could not cache model in IndexedDB:", err);
+  }
+
+  return { model, metadata: archive.metadata, fromCache: false };
+}
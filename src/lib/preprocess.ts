@@ -0,0 +1,106 @@
+import type { Tensor3D, Tensor4D } from "@tensorflow/tfjs";
+import type { ModelMetadata } from "./modelArchive";
+import type { Roi } from "./roi";
+import type { MirrorPreference } from "./settings";
+
+type TF = typeof import("@tensorflow/tfjs");
+
+/** "center" crops the largest centered square before resizing, "stretch" resizes the whole frame. */
+export type CropStrategy = "center" | "stretch";
+
+/** Pixel range the model was trained on. */
+export type NormalizationRange = "minus-one-to-one" | "zero-to-one";
+
+export type PreprocessConfig = {
+  imageSize: number;
+  crop: CropStrategy;
+  normalization: NormalizationRange;
+  mirror: boolean;
+  /** Area of the (cropped, mirrored) frame fed to the model; null uses all of it. */
+  roi: Roi | null;
+};
+
+/** The parts of preprocessing the player controls rather than the model. */
+export type FrameView = Pick<PreprocessConfig, "mirror" | "roi">;
+
+// Teachable Machine image models crop the webcam frame to a centered square
+// and scale pixels to [-1, 1] (MobileNet convention). Its webcam flips every
+// frame before training and predicting, so its models expect mirrored input.
+export const TEACHABLE_MACHINE_PREPROCESS: PreprocessConfig = {
+  imageSize: 224,
+  crop: "center",
+  normalization: "minus-one-to-one",
+  mirror: true,
+  roi: null,
+};
+
+/**
+ * Resolves the preprocessing for a model from its metadata.json. Anything
+ * under `userMetadata.preprocessing` overrides the Teachable Machine defaults,
+ * so models trained elsewhere can declare their own conventions.
+ */
+export function getPreprocessConfig(metadata: ModelMetadata): PreprocessConfig {
+  const userMetadata = (metadata.userMetadata ?? {}) as {
+    preprocessing?: Partial<PreprocessConfig>;
+  };
+  const overrides = userMetadata.preprocessing ?? {};
+
+  return {
+    ...TEACHABLE_MACHINE_PREPROCESS,
+    ...(typeof metadata.imageSize === "number" && { imageSize: metadata.imageSize }),
+    ...overrides,
+  };
+}
+
+/**
+ * Whether frames are flipped horizontally, both on screen and before
+ * inference. "auto" follows the model (metadata or the Teachable Machine
+ * convention), so the player sees exactly what the model sees.
+ */
+export function resolveMirror(preference: MirrorPreference, modelMirror: boolean): boolean {
+  if (preference === "auto") return modelMirror;
+  return preference === "on";
+}
+
+/**
+ * Turns raw RGB pixels ([height, width, 3], values 0-255) into a model
+ * input batch of one ([1, imageSize, imageSize, 3]).
+ */
+export function preprocessPixels(
+  tf: TF,
+  pixels: Tensor3D,
+  config: PreprocessConfig
+): Tensor4D {
+  return tf.tidy(() => {
+    let image = pixels;
+
+    if (config.crop === "center") {
+      const [height, width] = image.shape;
+      const size = Math.min(height, width);
+      const top = Math.floor((height - size) / 2);
+      const left = Math.floor((width - size) / 2);
+      image = image.slice([top, left, 0], [size, size, 3]);
+    }
+
+    if (config.mirror) {
+      image = image.reverse(1);
+    }
+
+    if (config.roi) {
+      const [height, width] = image.shape;
+      const top = Math.round(config.roi.y * height);
+      const left = Math.round(config.roi.x * width);
+      const boxHeight = Math.max(1, Math.min(height - top, Math.round(config.roi.size * height)));
+      const boxWidth = Math.max(1, Math.min(width - left, Math.round(config.roi.size * width)));
+      image = image.slice([top, left, 0], [boxHeight, boxWidth, 3]);
+    }
+
+    const resized = tf.image.resizeBilinear(image, [config.imageSize, config.imageSize]);
+    const normalized =
+      config.normalization === "minus-one-to-one"
+        ? resized.div(127.5).sub(1)
+        : resized.div(255);
+
+    return normalized.expandDims(0) as Tensor4D;
+  });
+}
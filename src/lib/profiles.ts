@@ -0,0 +1,109 @@
+import { createId } from "./roundHistory";
+
+/**
+ * Local player profiles for shared machines. The active profile scopes the
+ * round history and the per-player settings (see settings.ts); everything
+ * is kept in localStorage, so profiles never leave the browser.
+ */
+
+export type Profile = {
+  id: string;
+  name: string;
+  /** An emoji, shown in the avatar. */
+  avatar: string;
+  createdAt: number;
+};
+
+type ProfileState = {
+  profiles: Profile[];
+  activeId: string;
+};
+
+export const DEFAULT_PROFILE_ID = "default";
+
+export const AVATARS = ["🙂", "😎", "🤠", "🥷", "🦊", "🐼", "🐸", "🦄", "🐙", "🚀", "⚡", "🌵"];
+
+const DEFAULT_PROFILE: Profile = {
+  id: DEFAULT_PROFILE_ID,
+  name: "Jogador",
+  avatar: AVATARS[0],
+  createdAt: 0,
+};
+
+const STORAGE_KEY = "rps-profiles";
+
+const listeners = new Set<() => void>();
+
+function readStoredProfiles(): ProfileState {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (stored && Array.isArray(stored.profiles) && stored.profiles.length > 0) {
+      const activeId = stored.profiles.some((p: Profile) => p.id === stored.activeId)
+        ? stored.activeId
+        : stored.profiles[0].id;
+      return { profiles: stored.profiles, activeId };
+    }
+  } catch {
+    // Corrupt storage: start over with the default profile.
+  }
+  return { profiles: [DEFAULT_PROFILE], activeId: DEFAULT_PROFILE_ID };
+}
+
+let state: ProfileState = readStoredProfiles();
+
+function commit(next: ProfileState) {
+  state = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch {
+    // Private mode or full storage: keep the profiles for this session only.
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function getProfiles(): Profile[] {
+  return state.profiles;
+}
+
+export function getActiveProfileId(): string {
+  return state.activeId;
+}
+
+export function getActiveProfile(): Profile {
+  return state.profiles.find((p) => p.id === state.activeId) ?? state.profiles[0];
+}
+
+export function switchProfile(id: string) {
+  if (id === state.activeId || !state.profiles.some((p) => p.id === id)) return;
+  commit({ ...state, activeId: id });
+}
+
+/** Adds a profile and makes it the active one. */
+export function createProfile(name: string, avatar: string): Profile {
+  const profile: Profile = { id: createId(), name: name.trim(), avatar, createdAt: Date.now() };
+  commit({ profiles: [...state.profiles, profile], activeId: profile.id });
+  return profile;
+}
+
+export function updateProfile(id: string, patch: Partial<Pick<Profile, "name" | "avatar">>) {
+  commit({
+    ...state,
+    profiles: state.profiles.map((p) =>
+      p.id === id ? { ...p, ...patch, name: (patch.name ?? p.name).trim() } : p
+    ),
+  });
+}
+
+/** The last profile can't be removed; removing the active one switches to the first left. */
+export function deleteProfile(id: string) {
+  const profiles = state.profiles.filter((p) => p.id !== id);
+  if (profiles.length === 0 || profiles.length === state.profiles.length) return;
+  commit({ profiles, activeId: state.activeId === id ? profiles[0].id : state.activeId });
+}
+
+export function subscribeProfiles(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Region of interest: the part of the camera square the model looks at.
+ * Coordinates are fractions of the square as shown on screen (after
+ * mirroring), so the guide box and the crop always agree. The box stays
+ * square because the model input is.
+ */
+
+export type Roi = {
+  x: number;
+  y: number;
+  size: number;
+};
+
+export const DEFAULT_ROI: Roi = { x: 0.25, y: 0.25, size: 0.5 };
+
+/** Smaller boxes leave the model too few pixels to tell gestures apart. */
+export const MIN_ROI_SIZE = 0.2;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Keeps the box inside the frame and no smaller than MIN_ROI_SIZE. */
+export function clampRoi(roi: Roi): Roi {
+  const size = clamp(roi.size, MIN_ROI_SIZE, 1);
+  return {
+    x: clamp(roi.x, 0, 1 - size),
+    y: clamp(roi.y, 0, 1 - size),
+    size,
+  };
+}
+
+export function moveRoi(roi: Roi, dx: number, dy: number): Roi {
+  return clampRoi({ ...roi, x: roi.x + dx, y: roi.y + dy });
+}
+
+/** Drags the bottom-right corner; the top-left corner stays put. */
+export function resizeRoi(roi: Roi, dx: number, dy: number): Roi {
+  const size = clamp(roi.size + Math.max(dx, dy), MIN_ROI_SIZE, 1 - Math.max(roi.x, roi.y));
+  return { ...roi, size };
+}
@@ -0,0 +1,173 @@
+import type { GameChoice, Prediction } from "@/hooks/useTeachableModel";
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+import type { GameResult, RuleSetId } from "./rules";
+import type { StrategyId } from "./strategies";
+
+/**
+ * Every resolved round, kept in IndexedDB so the history survives a reload
+ * and can feed statistics. The schema evolves through MIGRATIONS: add a step
+ * at the end and the database version follows.
+ */
+
+/** One of the readings taken while capturing the player's gesture. */
+export type CaptureReading = {
+  gesture: GameChoice;
+  predictions: Prediction[];
+};
+
+export type StoredRound = {
+  id: string;
+  timestamp: number;
+  /** Page load the round was played in. */
+  sessionId: string;
+  profileId: string;
+  match: number;
+  player: GameChoice;
+  computer: GameChoice;
+  result: GameResult;
+  /** Probabilities averaged over the capture readings. */
+  predictions: Prediction[];
+  readings: CaptureReading[];
+  strategy: StrategyId;
+  ruleSet: RuleSetId;
+  /** `getModelKey` of the model that classified the gesture. */
+  modelId: string | null;
+};
+
+export type RoundQuery = {
+  profileId?: string;
+  sessionId?: string;
+  /** Only rounds played at or after this timestamp. */
+  since?: number;
+  /** Keep only the most recent rounds. */
+  limit?: number;
+};
+
+const DB_NAME = "rps-history";
+const STORE = "rounds";
+
+/** Owner of rounds saved before profiles existed (see profiles.ts). */
+const LEGACY_PROFILE_ID = "default";
+
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  (db) => {
+    const store = db.createObjectStore(STORE, { keyPath: "id" });
+    store.createIndex("timestamp", "timestamp");
+    store.createIndex("sessionId", "sessionId");
+  },
+  // v2: rounds belong to a player profile
+  (_db, tx) => {
+    const store = tx.objectStore(STORE);
+    store.createIndex("profileId", "profileId");
+    store.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
+      if (!cursor) return;
+      if (!cursor.value.profileId) cursor.update({ ...cursor.value, profileId: LEGACY_PROFILE_ID });
+      cursor.continue();
+    };
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+export function createId(): string {
+  if (typeof crypto !== "undefined" && crypto.randomUUID) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export const SESSION_ID = createId();
+
+const listeners = new Set<() => void>();
+
+function openHistory() {
+  return openDatabase(DB_NAME, DB_VERSION, (db, oldVersion, tx) => {
+    for (let version = oldVersion; version < MIGRATIONS.length; version++) {
+      MIGRATIONS[version](db, tx);
+    }
+  });
+}
+
+/** Element-wise mean of several probability vectors over the same classes. */
+export function averagePredictions(vectors: Prediction[][]): Prediction[] {
+  if (vectors.length === 0) return [];
+  return vectors[0].map(({ className }) => ({
+    className,
+    probability:
+      vectors.reduce(
+        (sum, v) => sum + (v.find((p) => p.className === className)?.probability ?? 0),
+        0
+      ) / vectors.length,
+  }));
+}
+
+export async function saveRounds(rounds: StoredRound[]): Promise<void> {
+  const db = await openHistory();
+  try {
+    const tx = db.transaction(STORE, "readwrite");
+    const store = tx.objectStore(STORE);
+    for (const round of rounds) store.put(round);
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function saveRound(round: StoredRound): Promise<void> {
+  return saveRounds([round]);
+}
+
+/** Rounds matching `query`, oldest first. */
+export async function getRounds(query: RoundQuery = {}): Promise<StoredRound[]> {
+  const db = await openHistory();
+  try {
+    const store = db.transaction(STORE).objectStore(STORE);
+    // Narrow with the most selective index, then filter the rest in memory
+    const request = query.sessionId
+      ? store.index("sessionId").getAll(query.sessionId)
+      : query.profileId
+        ? store.index("profileId").getAll(query.profileId)
+        : store.index("timestamp").getAll(
+            query.since !== undefined ? IDBKeyRange.lowerBound(query.since) : undefined
+          );
+    let rounds = (await requestToPromise(request)) as StoredRound[];
+
+    rounds = rounds.filter(
+      (r) =>
+        (!query.profileId || r.profileId === query.profileId) &&
+        (query.since === undefined || r.timestamp >= query.since)
+    );
+    rounds.sort((a, b) => a.timestamp - b.timestamp);
+    if (query.limit !== undefined) rounds = rounds.slice(-query.limit);
+    return rounds;
+  } finally {
+    db.close();
+  }
+}
+
+/** Deletes every round, or only a profile's rounds. */
+export async function clearRounds(profileId?: string): Promise<void> {
+  const db = await openHistory();
+  try {
+    const tx = db.transaction(STORE, "readwrite");
+    const store = tx.objectStore(STORE);
+    if (profileId) {
+      const keys = await requestToPromise(store.index("profileId").getAllKeys(profileId));
+      for (const key of keys) store.delete(key);
+    } else {
+      store.clear();
+    }
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/** Called after every write, so queries can refresh. */
+export function subscribeHistory(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
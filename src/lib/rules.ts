@@ -0,0 +1,249 @@
+import type { GameChoice } from "@/hooks/useTeachableModel";
+
+export type GameResult = "win" | "lose" | "draw" | null;
+
+/** A playable gesture. `id` is what the model's labels resolve to. */
+export type GestureDef = {
+  id: string;
+  label: string;
+  emoji: string;
+  /** Other names a model might use for this gesture (see labelMapping). */
+  aliases?: string[];
+};
+
+/** `winner` beats `loser`; the verb reads between them: "Pedra quebra Tesoura". */
+export type BeatRule = {
+  winner: string;
+  loser: string;
+  verb: string;
+};
+
+export type RuleSetId = "classic" | "rpsls" | "house";
+
+/**
+ * A game variant described as data: the gestures and a "beats" graph. Every
+ * pair of gestures needs exactly one rule and every gesture must beat as many
+ * gestures as it loses to, so no gesture is strictly better than another.
+ */
+export type RuleSet = {
+  id: RuleSetId;
+  name: string;
+  description: string;
+  gestures: GestureDef[];
+  beats: BeatRule[];
+};
+
+/** Not a gesture: no hand, or nothing above its threshold. Always loses. */
+export const IDLE: GestureDef = {
+  id: "idle",
+  label: "Nada",
+  emoji: "😴",
+  aliases: ["none", "nothing", "background", "neutral", "empty", "fundo", "vazio", "sem gesto"],
+};
+
+const ROCK: GestureDef = {
+  id: "rock",
+  label: "Pedra",
+  emoji: "🪨",
+  aliases: ["stone", "fist", "punho", "piedra"],
+};
+const PAPER: GestureDef = {
+  id: "paper",
+  label: "Papel",
+  emoji: "📄",
+  aliases: ["open hand", "mao aberta", "palm", "hand"],
+};
+const SCISORS: GestureDef = {
+  id: "scisors",
+  label: "Tesoura",
+  emoji: "✂️",
+  aliases: ["scissors", "scissor", "tijeras", "tijera"],
+};
+
+const CLASSIC_BEATS: BeatRule[] = [
+  { winner: "rock", loser: "scisors", verb: "quebra" },
+  { winner: "scisors", loser: "paper", verb: "corta" },
+  { winner: "paper", loser: "rock", verb: "embrulha" },
+];
+
+export const CLASSIC_RULES: RuleSet = {
+  id: "classic",
+  name: "Clássico",
+  description: "Pedra, papel e tesoura.",
+  gestures: [ROCK, PAPER, SCISORS],
+  beats: CLASSIC_BEATS,
+};
+
+export const RPSLS_RULES: RuleSet = {
+  id: "rpsls",
+  name: "Lagarto e Spock",
+  description: "A versão de cinco gestos com lagarto e Spock.",
+  gestures: [
+    ROCK,
+    PAPER,
+    SCISORS,
+    { id: "lizard", label: "Lagarto", emoji: "🦎" },
+    { id: "spock", label: "Spock", emoji: "🖖", aliases: ["vulcan", "vulcano"] },
+  ],
+  beats: [
+    ...CLASSIC_BEATS,
+    { winner: "rock", loser: "lizard", verb: "esmaga" },
+    { winner: "lizard", loser: "spock", verb: "envenena" },
+    { winner: "spock", loser: "scisors", verb: "quebra" },
+    { winner: "scisors", loser: "lizard", verb: "decapita" },
+    { winner: "lizard", loser: "paper", verb: "come" },
+    { winner: "paper", loser: "spock", verb: "refuta" },
+    { winner: "spock", loser: "rock", verb: "vaporiza" },
+  ],
+};
+
+export const HOUSE_RULES: RuleSet = {
+  id: "house",
+  name: "Fogo e água",
+  description: "Variante da casa com fogo e água.",
+  gestures: [
+    ROCK,
+    PAPER,
+    SCISORS,
+    { id: "fire", label: "Fogo", emoji: "🔥", aliases: ["flame", "chama"] },
+    { id: "water", label: "Água", emoji: "💧", aliases: ["drop", "gota"] },
+  ],
+  beats: [
+    ...CLASSIC_BEATS,
+    { winner: "rock", loser: "fire", verb: "abafa" },
+    { winner: "fire", loser: "paper", verb: "queima" },
+    { winner: "fire", loser: "scisors", verb: "derrete" },
+    { winner: "water", loser: "fire", verb: "apaga" },
+    { winner: "water", loser: "rock", verb: "desgasta" },
+    { winner: "paper", loser: "water", verb: "absorve" },
+    { winner: "scisors", loser: "water", verb: "corta" },
+  ],
+};
+
+export const RULE_SETS: RuleSet[] = [CLASSIC_RULES, RPSLS_RULES, HOUSE_RULES];
+
+/** A gesture from any built-in rule set, for showing rounds played under other rules. */
+export function findGesture(id: GameChoice): GestureDef | undefined {
+  if (id === IDLE.id) return IDLE;
+  for (const ruleSet of RULE_SETS) {
+    const gesture = ruleSet.gestures.find((g) => g.id === id);
+    if (gesture) return gesture;
+  }
+  return undefined;
+}
+
+/**
+ * Checks that a rule set is playable and balanced. Returns the problems
+ * found, empty when the rule set is valid.
+ */
+export function validateRuleSet(ruleSet: RuleSet): string[] {
+  const errors: string[] = [];
+  const ids = ruleSet.gestures.map((g) => g.id);
+  const known = new Set(ids);
+
+  if (ids.length < 3) errors.push("needs at least three gestures");
+  if (ids.length % 2 === 0) {
+    errors.push(`has ${ids.length} gestures; an even count can't be balanced`);
+  }
+  if (known.size !== ids.length) errors.push("has duplicate gesture ids");
+  if (known.has(IDLE.id)) errors.push(`"${IDLE.id}" is reserved`);
+
+  const pairs = new Map<string, number>();
+  for (const { winner, loser } of ruleSet.beats) {
+    if (!known.has(winner) || !known.has(loser)) {
+      errors.push(`rule "${winner}" beats "${loser}" uses an unknown gesture`);
+      continue;
+    }
+    if (winner === loser) {
+      errors.push(`"${winner}" can't beat itself`);
+      continue;
+    }
+    const pair = [winner, loser].sort().join(" / ");
+    pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+  }
+
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const pair = [ids[i], ids[j]].sort().join(" / ");
+      const count = pairs.get(pair) ?? 0;
+      if (count === 0) errors.push(`no rule between ${pair}`);
+      if (count > 1) errors.push(`more than one rule between ${pair}`);
+    }
+  }
+
+  if (errors.length === 0) {
+    const wins = (ids.length - 1) / 2;
+    for (const id of ids) {
+      const count = ruleSet.beats.filter((r) => r.winner === id).length;
+      if (count !== wins) errors.push(`"${id}" beats ${count} gestures, expected ${wins}`);
+    }
+  }
+
+  return errors;
+}
+
+/** A validated rule set with the lookups the game needs. */
+export type RuleEngine = {
+  ruleSet: RuleSet;
+  /** Gestures the CPU can play, in rule set order. */
+  choices: GameChoice[];
+  /** Gestures that beat `choice`. */
+  countersOf: (choice: GameChoice) => GameChoice[];
+  /** Gestures that `choice` beats. */
+  victimsOf: (choice: GameChoice) => GameChoice[];
+  /** Idle, and gestures outside the rule set, always lose. */
+  getResult: (player: GameChoice, computer: GameChoice) => GameResult;
+  emoji: (choice: GameChoice) => string;
+  label: (choice: GameChoice) => string;
+  /** The rule that decided the round, as a sentence; null for draws and idle. */
+  describe: (player: GameChoice, computer: GameChoice) => string | null;
+};
+
+export function createRuleEngine(ruleSet: RuleSet): RuleEngine {
+  const errors = validateRuleSet(ruleSet);
+  if (errors.length > 0) {
+    throw new Error(`Invalid rule set "${ruleSet.id}": ${errors.join("; ")}`);
+  }
+
+  const gestures = new Map(ruleSet.gestures.map((g) => [g.id, g]));
+  gestures.set(IDLE.id, IDLE);
+  const ruleFor = (winner: GameChoice, loser: GameChoice) =>
+    ruleSet.beats.find((r) => r.winner === winner && r.loser === loser);
+  const isGesture = (choice: GameChoice) => choice !== IDLE.id && gestures.has(choice);
+  const label = (choice: GameChoice) => gestures.get(choice)?.label ?? choice;
+
+  return {
+    ruleSet,
+    choices: ruleSet.gestures.map((g) => g.id),
+    countersOf: (choice) => ruleSet.beats.filter((r) => r.loser === choice).map((r) => r.winner),
+    victimsOf: (choice) => ruleSet.beats.filter((r) => r.winner === choice).map((r) => r.loser),
+    getResult: (player, computer) => {
+      if (!isGesture(player)) return "lose";
+      if (player === computer) return "draw";
+      return ruleFor(player, computer) ? "win" : "lose";
+    },
+    emoji: (choice) => gestures.get(choice)?.emoji ?? "❓",
+    label,
+    describe: (player, computer) => {
+      if (!isGesture(player) || !isGesture(computer)) return null;
+      const rule = ruleFor(player, computer) ?? ruleFor(computer, player);
+      if (!rule) return null;
+      return `${label(rule.winner)} ${rule.verb} ${label(rule.loser)}`;
+    },
+  };
+}
+
+const engines = new Map<RuleSetId, RuleEngine>();
+
+/** Engine for a built-in rule set, falling back to the classic game. */
+export function getRuleEngine(id: RuleSetId): RuleEngine {
+  const ruleSet = RULE_SETS.find((r) => r.id === id) ?? CLASSIC_RULES;
+  let engine = engines.get(ruleSet.id);
+  if (!engine) {
+    engine = createRuleEngine(ruleSet);
+    engines.set(ruleSet.id, engine);
+  }
+  return engine;
+}
+
+export const classicRules = getRuleEngine("classic");
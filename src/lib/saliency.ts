@@ -0,0 +1,58 @@
+import type { LayersModel, Tensor, Tensor2D, Tensor4D } from "@tensorflow/tfjs";
+
+type TF = typeof import("@tensorflow/tfjs");
+
+/**
+ * Gradient saliency: how much each input pixel moves the score of the top
+ * class. Bright cells are where the model is looking; on a wrong guess they
+ * usually land on the face, the background or the edge of the frame.
+ */
+
+export type Saliency = {
+  /** gridSize × gridSize values in [0, 1], row by row, in model input coordinates. */
+  values: number[];
+  gridSize: number;
+  classIndex: number;
+  probability: number;
+};
+
+export const SALIENCY_GRID = 28;
+
+/** Scales to [0, 1] by the strongest cell; an all-zero map stays zero. */
+export function normalizeSaliency(values: number[]): number[] {
+  const max = Math.max(0, ...values);
+  return max === 0 ? values.map(() => 0) : values.map((v) => v / max);
+}
+
+export async function computeSaliency(
+  tf: TF,
+  model: LayersModel,
+  input: Tensor4D,
+  gridSize = SALIENCY_GRID
+): Promise<Saliency> {
+  const prediction = model.predict(input) as Tensor;
+  const scores = Array.from(await prediction.data());
+  prediction.dispose();
+  const classIndex = scores.indexOf(Math.max(...scores));
+
+  const map = tf.tidy(() => {
+    const score = (x: Tensor4D) =>
+      (model.apply(x, { training: false }) as Tensor2D).slice([0, classIndex], [1, 1]).sum();
+    const gradient = tf.grad(score)(input);
+    // Strongest channel per pixel, averaged into the grid cells
+    const magnitude = gradient.abs().max(3, true) as Tensor4D;
+    const [, height, width] = magnitude.shape;
+    const cell = Math.max(1, Math.floor(Math.min(height, width) / gridSize));
+    const pooled = tf.avgPool(magnitude, cell, cell, "valid");
+    return tf.image.resizeBilinear(pooled, [gridSize, gridSize]).reshape([gridSize * gridSize]);
+  });
+  const raw = Array.from(await map.data());
+  map.dispose();
+
+  return {
+    values: normalizeSaliency(raw),
+    gridSize,
+    classIndex,
+    probability: scores[classIndex],
+  };
+}
@@ -0,0 +1,24 @@
+import JSZip from "jszip";
+import type { Sample } from "./samples";
+
+/**
+ * Exports the recorded samples as a zip with one folder of JPEGs per class,
+ * the layout Teachable Machine's "upload" and most training scripts
+ * (Keras image_dataset_from_directory, torchvision ImageFolder) read.
+ */
+
+/** Characters that can't appear in a folder name on every OS. */
+export function classFolderName(className: string): string {
+  return className.replace(/[\\/:*?"<>|]/g, "_").trim() || "_";
+}
+
+export async function exportSamplesZip(samples: Sample[]): Promise<Blob> {
+  const zip = new JSZip();
+  const counts: Record<string, number> = {};
+  for (const sample of samples) {
+    const folder = classFolderName(sample.className);
+    counts[folder] = (counts[folder] ?? 0) + 1;
+    zip.file(`${folder}/${String(counts[folder]).padStart(4, "0")}.jpg`, sample.image);
+  }
+  return zip.generateAsync({ type: "blob" });
+}
@@ -0,0 +1,176 @@
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+import type { Roi } from "./roi";
+import { createId } from "./roundHistory";
+
+/**
+ * Labeled frames recorded on /collect for retraining, kept in IndexedDB.
+ * A sample is what the model would see: the centered square of the frame,
+ * mirrored and cut to the hand area like at inference, resized to
+ * SAMPLE_SIZE (the Teachable Machine input size).
+ */
+
+export type Sample = {
+  id: string;
+  /** Class name, used as the model label when training. */
+  className: string;
+  createdAt: number;
+  image: Blob;
+};
+
+export const SAMPLE_SIZE = 224;
+
+const DB_NAME = "rps-samples";
+const STORE = "samples";
+
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  (db) => {
+    const store = db.createObjectStore(STORE, { keyPath: "id" });
+    store.createIndex("className", "className");
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+const listeners = new Set<() => void>();
+
+function openSamples() {
+  return openDatabase(DB_NAME, DB_VERSION, (db, oldVersion, tx) => {
+    for (let version = oldVersion; version < MIGRATIONS.length; version++) {
+      MIGRATIONS[version](db, tx);
+    }
+  });
+}
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * The square of the source frame a sample is cut from, in source pixels.
+ * `roi` is in on-screen coordinates, so with mirroring its x is flipped.
+ */
+export function sampleSourceRect(
+  width: number,
+  height: number,
+  roi: Roi | null,
+  mirror: boolean
+): { x: number; y: number; size: number } {
+  const square = Math.min(width, height);
+  const left = (width - square) / 2;
+  const top = (height - square) / 2;
+  if (!roi) return { x: left, y: top, size: square };
+
+  const x = mirror ? 1 - roi.x - roi.size : roi.x;
+  return { x: left + x * square, y: top + roi.y * square, size: roi.size * square };
+}
+
+/** Grabs the current video frame as a sample image (JPEG). */
+export function captureSampleImage(
+  video: HTMLVideoElement,
+  roi: Roi | null,
+  mirror: boolean
+): Promise<Blob> {
+  const rect = sampleSourceRect(video.videoWidth, video.videoHeight, roi, mirror);
+  const canvas = document.createElement("canvas");
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const ctx = canvas.getContext("2d");
+  if (mirror) {
+    ctx.translate(SAMPLE_SIZE, 0);
+    ctx.scale(-1, 1);
+  }
+  ctx.drawImage(video, rect.x, rect.y, rect.size, rect.size, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("could not encode the frame"))),
+      "image/jpeg",
+      0.92
+    )
+  );
+}
+
+export async function saveSamples(samples: Sample[]): Promise<void> {
+  const db = await openSamples();
+  try {
+    const tx = db.transaction(STORE, "readwrite");
+    const store = tx.objectStore(STORE);
+    for (const sample of samples) store.put(sample);
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+  notify();
+}
+
+export function createSample(className: string, image: Blob): Sample {
+  return { id: createId(), className, createdAt: Date.now(), image };
+}
+
+/** Samples of one class, or all of them, oldest first. */
+export async function getSamples(className?: string): Promise<Sample[]> {
+  const db = await openSamples();
+  try {
+    const store = db.transaction(STORE).objectStore(STORE);
+    const request = className ? store.index("className").getAll(className) : store.getAll();
+    const samples = (await requestToPromise(request)) as Sample[];
+    return samples.sort((a, b) => a.createdAt - b.createdAt);
+  } finally {
+    db.close();
+  }
+}
+
+/** Number of samples per class, without loading the images. */
+export async function getSampleCounts(): Promise<Record<string, number>> {
+  const db = await openSamples();
+  try {
+    const tx = db.transaction(STORE);
+    const counts: Record<string, number> = {};
+    tx.objectStore(STORE).index("className").openKeyCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursor>).result;
+      if (!cursor) return;
+      const className = cursor.key as string;
+      counts[className] = (counts[className] ?? 0) + 1;
+      cursor.continue();
+    };
+    await transactionDone(tx);
+    return counts;
+  } finally {
+    db.close();
+  }
+}
+
+export async function deleteSamples(ids: string[]): Promise<void> {
+  const db = await openSamples();
+  try {
+    const tx = db.transaction(STORE, "readwrite");
+    const store = tx.objectStore(STORE);
+    for (const id of ids) store.delete(id);
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+  notify();
+}
+
+export async function deleteClass(className: string): Promise<void> {
+  const db = await openSamples();
+  try {
+    const tx = db.transaction(STORE, "readwrite");
+    const store = tx.objectStore(STORE);
+    const keys = await requestToPromise(store.index("className").getAllKeys(className));
+    for (const key of keys) store.delete(key);
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+  notify();
+}
+
+/** Called after every write, so views can refresh. */
+export function subscribeSamples(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
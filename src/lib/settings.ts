@@ -0,0 +1,163 @@
+import type { Thresholds } from "./calibration";
+import { DEFAULT_SMOOTHING, type SmoothingConfig } from "./smoothing";
+import type { StrategyId } from "./strategies";
+import type { MatchFormatId } from "./matchFormats";
+import type { RuleSetId } from "./rules";
+import type { LabelMapping } from "./labelMapping";
+import { DEFAULT_CAMERA, type CameraSettings } from "./camera";
+import type { Roi } from "./roi";
+import { DEFAULT_PROFILE_ID, getActiveProfileId, subscribeProfiles } from "./profiles";
+
+/**
+ * Player-facing settings, persisted to localStorage. Kept outside React so
+ * non-component code (model loading, inference) can read the current value.
+ * PROFILE_KEYS belong to the player and are stored per profile; the rest is
+ * shared by everyone using the machine.
+ */
+
+export type BackendPreference = "auto" | "webgl" | "wasm" | "cpu";
+
+/** "auto" mirrors when the model was trained on mirrored frames. */
+export type MirrorPreference = "auto" | "on" | "off";
+
+export type Settings = {
+  backend: BackendPreference;
+  smoothing: SmoothingConfig;
+  /** Per-class confidence thresholds keyed by model label. */
+  thresholds: Thresholds;
+  /** CPU opponent, shown to the player as a difficulty level. */
+  difficulty: StrategyId;
+  matchFormat: MatchFormatId;
+  ruleSet: RuleSetId;
+  /** Manual model label -> gesture choices; unlisted labels go through the aliases. */
+  labelMapping: LabelMapping;
+  camera: CameraSettings;
+  mirror: MirrorPreference;
+  /** Hand area fed to the model; null feeds the whole frame. */
+  roi: Roi | null;
+  /** Shows the live probabilities, latency and memory over the webcam. */
+  debugOverlay: boolean;
+  /** Shows where the model looks (gradient saliency) over the webcam. */
+  saliencyOverlay: boolean;
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  backend: "auto",
+  smoothing: DEFAULT_SMOOTHING,
+  thresholds: {},
+  difficulty: "random",
+  matchFormat: "endless",
+  ruleSet: "classic",
+  labelMapping: {},
+  camera: DEFAULT_CAMERA,
+  mirror: "auto",
+  roi: null,
+  debugOverlay: false,
+  saliencyOverlay: false,
+};
+
+const PROFILE_KEYS: (keyof Settings)[] = ["thresholds", "difficulty"];
+
+const STORAGE_KEY = "rps-settings";
+
+const profileStorageKey = (profileId: string) => `${STORAGE_KEY}:${profileId}`;
+
+const listeners = new Set<() => void>();
+
+function readJson(key: string): Partial<Settings> {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? "{}") ?? {};
+  } catch {
+    return {};
+  }
+}
+
+function splitSettings(values: Partial<Settings>) {
+  const shared: Partial<Settings> = { ...values };
+  const own: Partial<Settings> = {};
+  for (const key of PROFILE_KEYS) {
+    if (key in values) Object.assign(own, { [key]: values[key] });
+    delete shared[key];
+  }
+  return { shared, own };
+}
+
+/**
+ * Before profiles existed everything was stored under the shared key. The
+ * per-player values move to the default profile once, before any profile
+ * writes the shared key back without them.
+ */
+function migrateLegacySettings() {
+  try {
+    const defaultKey = profileStorageKey(DEFAULT_PROFILE_ID);
+    if (localStorage.getItem(defaultKey) !== null) return;
+    const { own } = splitSettings(readJson(STORAGE_KEY));
+    if (Object.keys(own).length === 0) return;
+    localStorage.setItem(defaultKey, JSON.stringify(own));
+  } catch {
+    // Storage unavailable: nothing was saved to migrate.
+  }
+}
+
+function readStoredSettings(): Settings {
+  migrateLegacySettings();
+  const profileId = getActiveProfileId();
+  const { shared } = splitSettings(readJson(STORAGE_KEY));
+  return mergeWithDefaults({ ...shared, ...readJson(profileStorageKey(profileId)) });
+}
+
+// Nested groups are merged key by key so settings saved by an older version
+// pick up defaults for fields added since.
+function mergeWithDefaults(stored: Partial<Settings>): Settings {
+  const merged = { ...DEFAULT_SETTINGS, ...stored };
+  for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof Settings)[]) {
+    const fallback = DEFAULT_SETTINGS[key];
+    if (fallback && typeof fallback === "object" && !Array.isArray(fallback)) {
+      Object.assign(merged, { [key]: { ...fallback, ...(stored[key] as object) } });
+    }
+  }
+  return merged;
+}
+
+let settings: Settings = readStoredSettings();
+
+export function getSettings(): Settings {
+  return settings;
+}
+
+export function updateSettings(patch: Partial<Settings>) {
+  settings = { ...settings, ...patch };
+  const { shared, own } = splitSettings(settings);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(shared));
+    localStorage.setItem(profileStorageKey(getActiveProfileId()), JSON.stringify(own));
+  } catch {
+    // Private mode or full storage: keep the settings for this session only.
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeSettings(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Forgets the per-player settings of a deleted profile. */
+export function removeProfileSettings(profileId: string) {
+  try {
+    localStorage.removeItem(profileStorageKey(profileId));
+  } catch {
+    // Nothing stored to clean up.
+  }
+}
+
+// Switching player swaps in their own settings
+let settingsProfileId = getActiveProfileId();
+subscribeProfiles(() => {
+  if (getActiveProfileId() === settingsProfileId) return;
+  settingsProfileId = getActiveProfileId();
+  settings = readStoredSettings();
+  listeners.forEach((listener) => listener());
+});
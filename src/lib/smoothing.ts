@@ -0,0 +1,129 @@
+import type { Prediction } from "@/hooks/useTeachableModel";
+import type { Thresholds } from "./calibration";
+
+/**
+ * Temporal smoothing for the live gesture display. Raw per-frame argmax
+ * flickers, so class probabilities are averaged over time (EMA), a gesture
+ * must clear a higher bar to be shown than to stay shown (hysteresis), and
+ * a change must persist for a minimum time before it is displayed (dwell).
+ * A class calibrated for the player (see calibration.ts) enters at its own
+ * threshold instead, so the badge agrees with what a capture would pick.
+ */
+
+export type SmoothingConfig = {
+  /** EMA weight of the newest frame, 0-1. Lower is smoother but slower. */
+  alpha: number;
+  /** Averaged probability a gesture needs to replace the displayed one. */
+  enterThreshold: number;
+  /** The displayed gesture is kept while its average stays above this. */
+  exitThreshold: number;
+  /** How long a new gesture must stay the winner before it is displayed. */
+  minDwellMs: number;
+};
+
+export const DEFAULT_SMOOTHING: SmoothingConfig = {
+  alpha: 0.4,
+  enterThreshold: 0.65,
+  exitThreshold: 0.45,
+  minDwellMs: 200,
+};
+
+export type SmoothingState = {
+  averages: Record<string, number>;
+  current: string;
+  pending: string | null;
+  pendingSince: number;
+};
+
+export function createSmoothingState(fallback = "idle"): SmoothingState {
+  return { averages: {}, current: fallback, pending: null, pendingSince: 0 };
+}
+
+/** Exponential moving average of each class probability. */
+export function smoothProbabilities(
+  averages: Record<string, number>,
+  predictions: Prediction[],
+  alpha: number
+): Record<string, number> {
+  const next: Record<string, number> = {};
+  for (const { className, probability } of predictions) {
+    const previous = averages[className];
+    next[className] =
+      previous === undefined ? probability : alpha * probability + (1 - alpha) * previous;
+  }
+  return next;
+}
+
+/**
+ * Where a class enters and leaves the display. A calibrated threshold
+ * replaces the enter threshold and keeps the configured hysteresis gap.
+ */
+export function classThresholds(
+  className: string,
+  config: SmoothingConfig,
+  thresholds: Thresholds = {}
+): { enter: number; exit: number } {
+  const calibrated = thresholds[className];
+  if (calibrated === undefined) {
+    return { enter: config.enterThreshold, exit: config.exitThreshold };
+  }
+  const gap = Math.max(0, config.enterThreshold - config.exitThreshold);
+  return { enter: calibrated, exit: Math.max(0, calibrated - gap) };
+}
+
+/** The gesture that should be displayed given the averages, ignoring dwell time. */
+export function pickTarget(
+  averages: Record<string, number>,
+  current: string,
+  config: SmoothingConfig,
+  fallback = "idle",
+  thresholds: Thresholds = {}
+): string {
+  // Like pickGesture: the most probable class among those clearing their bar
+  let top: string | null = null;
+  for (const [className, value] of Object.entries(averages)) {
+    if (value < classThresholds(className, config, thresholds).enter) continue;
+    if (top === null || value > averages[top]) top = className;
+  }
+
+  if (top !== null && top !== current) {
+    return top;
+  }
+  if (
+    current !== fallback &&
+    (averages[current] ?? 0) < classThresholds(current, config, thresholds).exit
+  ) {
+    return fallback;
+  }
+  return current;
+}
+
+/** Feeds one frame of predictions through the smoother. */
+export function stepSmoothing(
+  state: SmoothingState,
+  predictions: Prediction[],
+  now: number,
+  config: SmoothingConfig = DEFAULT_SMOOTHING,
+  fallback = "idle",
+  thresholds: Thresholds = {}
+): SmoothingState {
+  if (predictions.length === 0) return state;
+
+  const averages = smoothProbabilities(state.averages, predictions, config.alpha);
+  const target = pickTarget(averages, state.current, config, fallback, thresholds);
+
+  if (target === state.current) {
+    return { averages, current: state.current, pending: null, pendingSince: 0 };
+  }
+  if (target !== state.pending) {
+    // A new contender: start its dwell timer (a zero dwell switches right away).
+    if (config.minDwellMs <= 0) {
+      return { averages, current: target, pending: null, pendingSince: 0 };
+    }
+    return { averages, current: state.current, pending: target, pendingSince: now };
+  }
+  if (now - state.pendingSince >= config.minDwellMs) {
+    return { averages, current: target, pending: null, pendingSince: 0 };
+  }
+  return { ...state, averages };
+}
@@ -0,0 +1,132 @@
+import type { GameChoice } from "@/hooks/useTeachableModel";
+import type { GameResult } from "./rules";
+import type { StoredRound } from "./roundHistory";
+import type { StrategyId } from "./strategies";
+
+/**
+ * Aggregates for the statistics page, computed from the round history
+ * (oldest first). Win rates count draws as rounds played.
+ */
+
+export type WinRatePoint = {
+  round: number;
+  timestamp: number;
+  /** Win rate over every round so far. */
+  cumulative: number;
+  /** Win rate over the last `window` rounds. */
+  rolling: number;
+};
+
+export type GestureCount = {
+  gesture: GameChoice;
+  player: number;
+  computer: number;
+};
+
+export type Streak = {
+  result: GameResult;
+  length: number;
+};
+
+export type StreakSummary = {
+  longestWin: number;
+  longestLose: number;
+  current: Streak | null;
+};
+
+export type StrategyPerformance = {
+  strategy: StrategyId;
+  rounds: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  winRate: number;
+};
+
+export type GestureConfidence = {
+  gesture: GameChoice;
+  rounds: number;
+  /** Mean probability of the most likely class when the player showed this gesture. */
+  confidence: number;
+};
+
+const rate = (wins: number, total: number) => (total === 0 ? 0 : wins / total);
+
+export function winRateOverTime(rounds: StoredRound[], window = 10): WinRatePoint[] {
+  let wins = 0;
+  return rounds.map((round, i) => {
+    if (round.result === "win") wins++;
+    const recent = rounds.slice(Math.max(0, i + 1 - window), i + 1);
+    return {
+      round: i + 1,
+      timestamp: round.timestamp,
+      cumulative: rate(wins, i + 1),
+      rolling: rate(recent.filter((r) => r.result === "win").length, recent.length),
+    };
+  });
+}
+
+/** How often each side played each gesture, in order of first appearance. */
+export function gestureDistribution(rounds: StoredRound[]): GestureCount[] {
+  const counts = new Map<GameChoice, GestureCount>();
+  const entry = (gesture: GameChoice) => {
+    if (!counts.has(gesture)) counts.set(gesture, { gesture, player: 0, computer: 0 });
+    return counts.get(gesture);
+  };
+  for (const round of rounds) {
+    entry(round.player).player++;
+    entry(round.computer).computer++;
+  }
+  return [...counts.values()];
+}
+
+/** Runs of the same result; any other result ends a run. */
+export function streaks(rounds: StoredRound[]): StreakSummary {
+  const summary: StreakSummary = { longestWin: 0, longestLose: 0, current: null };
+  let current: Streak | null = null;
+
+  for (const { result } of rounds) {
+    current =
+      current && current.result === result
+        ? { result, length: current.length + 1 }
+        : { result, length: 1 };
+    if (result === "win") summary.longestWin = Math.max(summary.longestWin, current.length);
+    if (result === "lose") summary.longestLose = Math.max(summary.longestLose, current.length);
+  }
+
+  summary.current = current;
+  return summary;
+}
+
+export function strategyPerformance(rounds: StoredRound[]): StrategyPerformance[] {
+  const byStrategy = new Map<StrategyId, StrategyPerformance>();
+  for (const round of rounds) {
+    let entry = byStrategy.get(round.strategy);
+    if (!entry) {
+      entry = { strategy: round.strategy, rounds: 0, wins: 0, losses: 0, draws: 0, winRate: 0 };
+      byStrategy.set(round.strategy, entry);
+    }
+    entry.rounds++;
+    if (round.result === "win") entry.wins++;
+    else if (round.result === "lose") entry.losses++;
+    else entry.draws++;
+  }
+  for (const entry of byStrategy.values()) entry.winRate = rate(entry.wins, entry.rounds);
+  return [...byStrategy.values()];
+}
+
+/** Rounds without readings (no camera) are left out. */
+export function confidenceByGesture(rounds: StoredRound[]): GestureConfidence[] {
+  const totals = new Map<GameChoice, { sum: number; rounds: number }>();
+  for (const round of rounds) {
+    if (round.predictions.length === 0) continue;
+    const top = Math.max(...round.predictions.map((p) => p.probability));
+    const total = totals.get(round.player) ?? { sum: 0, rounds: 0 };
+    totals.set(round.player, { sum: total.sum + top, rounds: total.rounds + 1 });
+  }
+  return [...totals.entries()].map(([gesture, { sum, rounds: count }]) => ({
+    gesture,
+    rounds: count,
+    confidence: sum / count,
+  }));
+}
@@ -0,0 +1,148 @@
+import type { GameChoice } from "@/hooks/useTeachableModel";
+import { classicRules, type GameResult, type RuleEngine } from "./rules";
+
+/** One resolved round, from the player's point of view. */
+export type RoundRecord = {
+  player: GameChoice;
+  computer: GameChoice;
+  result: GameResult;
+  strategy: StrategyId;
+  /** Match the round belonged to, counted from 1 within the session. */
+  match: number;
+};
+
+export type StrategyId = "easy" | "random" | "frequency" | "markov" | "wsls";
+
+/**
+ * A CPU opponent. `choose` gets the full round history (oldest first), a
+ * random source, so strategies stay deterministic under test, and the rules
+ * being played.
+ */
+export interface ComputerStrategy {
+  id: StrategyId;
+  label: string;
+  description: string;
+  choose: (history: RoundRecord[], random?: () => number, rules?: RuleEngine) => GameChoice;
+}
+
+// Only draws a random number when there is an actual choice to make
+function pick(options: GameChoice[], random: () => number): GameChoice {
+  if (options.length <= 1) return options[0];
+  return options[Math.floor(random() * options.length)];
+}
+
+function randomChoice(rules: RuleEngine, random: () => number): GameChoice {
+  return rules.choices[Math.floor(random() * rules.choices.length)];
+}
+
+/** A gesture that beats `choice`; with more than three gestures there are several. */
+function counterOf(rules: RuleEngine, choice: GameChoice, random: () => number): GameChoice {
+  return pick(rules.countersOf(choice), random);
+}
+
+// Rounds where the player actually showed a gesture
+function playerMoves(history: RoundRecord[]): GameChoice[] {
+  return history.map((r) => r.player).filter((c) => c !== "idle");
+}
+
+/** Most common entry, ties broken at random; null for an empty list. */
+function mostCommon(moves: GameChoice[], random: () => number): GameChoice | null {
+  const counts = new Map<GameChoice, number>();
+  for (const m of moves) counts.set(m, (counts.get(m) ?? 0) + 1);
+  const max = Math.max(0, ...counts.values());
+  const top = [...counts.entries()].filter(([, n]) => n === max).map(([m]) => m);
+  if (top.length === 0) return null;
+  return top[Math.floor(random() * top.length)];
+}
+
+export const randomStrategy: ComputerStrategy = {
+  id: "random",
+  label: "Normal",
+  description: "Joga ao acaso, como o jogo original.",
+  choose: (_history, random = Math.random, rules = classicRules) => randomChoice(rules, random),
+};
+
+/** Beatable on purpose: tends to play what loses to the player's last gesture. */
+export const easyStrategy: ComputerStrategy = {
+  id: "easy",
+  label: "Fácil",
+  description: "Costuma perder para quem repete o último gesto.",
+  choose: (history, random = Math.random, rules = classicRules) => {
+    const moves = playerMoves(history);
+    const last = moves[moves.length - 1];
+    if (last && random() < 0.6) return pick(rules.victimsOf(last), random);
+    return randomChoice(rules, random);
+  },
+};
+
+/** Counters the gesture the player has shown most often. */
+export const frequencyStrategy: ComputerStrategy = {
+  id: "frequency",
+  label: "Difícil",
+  description: "Conta seus gestos e joga contra o favorito.",
+  choose: (history, random = Math.random, rules = classicRules) => {
+    const favourite = mostCommon(playerMoves(history), random);
+    return favourite ? counterOf(rules, favourite, random) : randomChoice(rules, random);
+  },
+};
+
+/**
+ * Learns which gesture tends to follow the player's last `order` gestures
+ * and counters the most likely next one, falling back to shorter contexts.
+ */
+export function createMarkovStrategy(order = 2): ComputerStrategy {
+  return {
+    id: "markov",
+    label: "Muito difícil",
+    description: `Aprende a sequência dos seus últimos ${order} gestos.`,
+    choose: (history, random = Math.random, rules = classicRules) => {
+      const moves = playerMoves(history);
+
+      for (let n = Math.min(order, moves.length - 1); n >= 1; n--) {
+        const context = moves.slice(-n).join(",");
+        const followers: GameChoice[] = [];
+        for (let i = n; i < moves.length; i++) {
+          if (moves.slice(i - n, i).join(",") === context) followers.push(moves[i]);
+        }
+        const predicted = mostCommon(followers, random);
+        if (predicted) return counterOf(rules, predicted, random);
+      }
+
+      return frequencyStrategy.choose(history, random, rules);
+    },
+  };
+}
+
+export const markovStrategy = createMarkovStrategy();
+
+/**
+ * Exploits the common human habit of repeating a winning gesture and, after
+ * a loss, switching to the gesture that would have beaten the CPU.
+ */
+export const winStayLoseShiftStrategy: ComputerStrategy = {
+  id: "wsls",
+  label: "Especialista",
+  description: "Explora o hábito de repetir após ganhar e trocar após perder.",
+  choose: (history, random = Math.random, rules = classicRules) => {
+    const last = history[history.length - 1];
+    if (!last || last.player === "idle") return randomChoice(rules, random);
+
+    if (last.result === "win") return counterOf(rules, last.player, random);
+    if (last.result === "lose") {
+      return counterOf(rules, counterOf(rules, last.computer, random), random);
+    }
+    return randomChoice(rules, random);
+  },
+};
+
+export const STRATEGIES: ComputerStrategy[] = [
+  easyStrategy,
+  randomStrategy,
+  frequencyStrategy,
+  markovStrategy,
+  winStayLoseShiftStrategy,
+];
+
+export function getStrategy(id: StrategyId): ComputerStrategy {
+  return STRATEGIES.find((s) => s.id === id) ?? randomStrategy;
+}
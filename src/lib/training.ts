@@ -0,0 +1,182 @@
+import type { LayersModel, Logs, Tensor, Tensor2D } from "@tensorflow/tfjs";
+import { serializeModel, type ModelArchive } from "./modelArchive";
+import type { Sample } from "./samples";
+
+type TF = typeof import("@tensorflow/tfjs");
+
+/**
+ * Transfer learning in the browser, the way Teachable Machine trains: the
+ * loaded model's MobileNet (its first layer) stays frozen and turns every
+ * sample into an embedding once, then only a new dense head is trained on
+ * those embeddings. The result has the same two-layer topology as a
+ * Teachable Machine export.
+ */
+
+/** What the worker needs from a recorded sample. */
+export type TrainingSample = Pick<Sample, "className" | "image">;
+
+export type TrainingOptions = {
+  epochs: number;
+  batchSize: number;
+  learningRate: number;
+  /** Share of the samples held out to measure accuracy on unseen frames. */
+  validationSplit: number;
+};
+
+/** Metrics after one epoch; validation ones are null when nothing was held out. */
+export type TrainingEpoch = {
+  epoch: number;
+  loss: number;
+  accuracy: number;
+  valLoss: number | null;
+  valAccuracy: number | null;
+};
+
+// Teachable Machine's defaults, except for a validation set
+export const DEFAULT_TRAINING: TrainingOptions = {
+  epochs: 50,
+  batchSize: 16,
+  learningRate: 0.001,
+  validationSplit: 0.15,
+};
+
+export const MIN_SAMPLES_PER_CLASS = 5;
+
+const HIDDEN_UNITS = 100;
+
+/**
+ * Class order for the trained model: labels of the current model first, so
+ * label mappings and thresholds keep applying, then new classes as found.
+ */
+export function trainingLabels(classNames: string[], current: string[]): string[] {
+  const present = new Set(classNames);
+  const known = current.filter((label) => present.has(label));
+  return [...new Set([...known, ...classNames])];
+}
+
+/** Throws unless every class has enough samples and there are at least two. */
+export function checkTrainingSet(counts: Record<string, number>): void {
+  const classes = Object.keys(counts).filter((name) => counts[name] > 0);
+  if (classes.length < 2) {
+    throw new Error("training needs samples of at least two classes");
+  }
+  const short = classes.filter((name) => counts[name] < MIN_SAMPLES_PER_CLASS);
+  if (short.length > 0) {
+    throw new Error(
+      `every class needs at least ${MIN_SAMPLES_PER_CLASS} samples (${short.join(", ")})`
+    );
+  }
+}
+
+/**
+ * Shuffled sample indices split into training and validation. Samples come
+ * grouped by class, so taking the tail like fit's validationSplit would
+ * validate on a single class.
+ */
+export function splitTrainingSet(
+  count: number,
+  validationSplit: number,
+  random: () => number = Math.random
+): { train: number[]; validation: number[] } {
+  const indices = Array.from({ length: count }, (_, i) => i);
+  for (let i = indices.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  const held = Math.floor(count * validationSplit);
+  return { train: indices.slice(held), validation: indices.slice(0, held) };
+}
+
+/** The frozen MobileNet of a Teachable Machine-style model (its first layer). */
+export function featureExtractor(model: LayersModel): LayersModel {
+  const [base] = model.layers;
+  if (model.layers.length !== 2 || !("predict" in base)) {
+    throw new Error("model is not a feature extractor followed by a classification head");
+  }
+  return base as LayersModel;
+}
+
+function createHead(tf: TF, featureSize: number, classCount: number): LayersModel {
+  return tf.sequential({
+    layers: [
+      tf.layers.dense({
+        inputShape: [featureSize],
+        units: HIDDEN_UNITS,
+        activation: "relu",
+        kernelInitializer: "varianceScaling",
+        useBias: true,
+      }),
+      tf.layers.dense({
+        units: classCount,
+        activation: "softmax",
+        kernelInitializer: "varianceScaling",
+        useBias: false,
+      }),
+    ],
+  });
+}
+
+function toEpoch(epoch: number, logs: Logs): TrainingEpoch {
+  return {
+    epoch: epoch + 1,
+    loss: logs.loss,
+    accuracy: logs.acc,
+    valLoss: logs.val_loss ?? null,
+    valAccuracy: logs.val_acc ?? null,
+  };
+}
+
+/**
+ * Trains a new head on precomputed embeddings (one [1, n] tensor per sample)
+ * and returns the feature extractor plus that head, serialized. The caller
+ * builds the playable model from it, so the new model shares no weights
+ * with the one still in use.
+ */
+export async function trainHead(
+  tf: TF,
+  base: LayersModel,
+  features: Tensor2D[],
+  classIndices: number[],
+  classCount: number,
+  options: TrainingOptions,
+  onEpoch?: (epoch: TrainingEpoch) => void
+): Promise<Omit<ModelArchive, "metadata">> {
+  const { train, validation } = splitTrainingSet(features.length, options.validationSplit);
+  const batch = (indices: number[]) =>
+    tf.tidy(() => [
+      tf.concat(indices.map((i) => features[i])),
+      tf.oneHot(
+        indices.map((i) => classIndices[i]),
+        classCount
+      ).toFloat(),
+    ]);
+
+  const [xs, ys] = batch(train);
+  const validationData =
+    validation.length > 0 ? (batch(validation) as [Tensor, Tensor]) : undefined;
+
+  const head = createHead(tf, features[0].shape[1], classCount);
+  head.compile({
+    optimizer: tf.train.adam(options.learningRate),
+    loss: "categoricalCrossentropy",
+    metrics: ["accuracy"],
+  });
+
+  try {
+    await head.fit(xs, ys, {
+      epochs: options.epochs,
+      batchSize: options.batchSize,
+      shuffle: true,
+      validationData,
+      callbacks: {
+        onEpochEnd: (epoch, logs) => onEpoch?.(toEpoch(epoch, logs)),
+      },
+    });
+
+    return await serializeModel(tf.sequential({ layers: [base, head] }));
+  } finally {
+    // Only the head: the base still belongs to the active model
+    head.dispose();
+    tf.dispose([xs, ys, ...(validationData ?? [])]);
+  }
+}
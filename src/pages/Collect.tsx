@@ -0,0 +1,290 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import RoiOverlay from "@/components/RoiOverlay";
+import SampleGrid from "@/components/SampleGrid";
+import TrainingPanel from "@/components/TrainingPanel";
+import WebcamView, { type WebcamHandle } from "@/components/WebcamView";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { downloadBlob } from "@/lib/download";
+import { useRules } from "@/hooks/useRules";
+import { useSamples } from "@/hooks/useSamples";
+import { useSettings } from "@/hooks/useSettings";
+import { useTeachableModel } from "@/hooks/useTeachableModel";
+import { IDLE } from "@/lib/rules";
+import { exportSamplesZip } from "@/lib/sampleExport";
+import {
+  captureSampleImage,
+  createSample,
+  deleteClass,
+  deleteSamples,
+  getSamples,
+  saveSamples,
+  type Sample,
+} from "@/lib/samples";
+
+// Ten frames a second: different enough from each other, fast enough to
+// collect a few hundred samples in a minute
+const RECORD_INTERVAL_MS = 100;
+const BURST_SIZE = 10;
+
+const Collect = () => {
+  const webcamRef = useRef<WebcamHandle>(null);
+  const { settings, updateSettings } = useSettings();
+  const rules = useRules();
+  // The loaded model names the default classes and is what training starts from
+  const { loadModel, trainModel, exportModel, isReady, labels, mirror } = useTeachableModel();
+  const [extraClasses, setExtraClasses] = useState<string[]>([]);
+  const [newClass, setNewClass] = useState("");
+  const [selected, setSelected] = useState<string | null>(null);
+  const [recording, setRecording] = useState<"hold" | "burst" | null>(null);
+  const [buffered, setBuffered] = useState(0);
+  const [isClearing, setIsClearing] = useState(false);
+  const { counts, samples, error } = useSamples(selected);
+  const bufferRef = useRef<Sample[]>([]);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  // The loaded model's classes, or the gestures of the active rules
+  const defaults =
+    labels.length > 0 ? labels : [...rules.ruleSet.gestures.map((g) => g.label), IDLE.label];
+  const classes = [...new Set([...defaults, ...Object.keys(counts), ...extraClasses])];
+  const firstClass = classes[0] ?? null;
+  const current = selected ?? firstClass;
+
+  useEffect(() => {
+    loadModel();
+  }, [loadModel]);
+
+  useEffect(() => {
+    if (selected === null && firstClass) setSelected(firstClass);
+  }, [selected, firstClass]);
+
+  // Frames are buffered while recording and saved in one go when it stops
+  const stopRecording = useCallback(() => {
+    if (timerRef.current) clearInterval(timerRef.current);
+    timerRef.current = null;
+    setRecording(null);
+    const batch = bufferRef.current.splice(0);
+    setBuffered(0);
+    if (batch.length > 0) {
+      saveSamples(batch).catch((err) => console.error("Failed to save samples:", err));
+    }
+  }, []);
+
+  const startRecording = useCallback(
+    (limit?: number) => {
+      if (!current || timerRef.current) return;
+      setRecording(limit === undefined ? "hold" : "burst");
+      timerRef.current = setInterval(async () => {
+        const video = webcamRef.current?.getVideo();
+        if (!video || video.readyState < 2) return;
+        try {
+          const image = await captureSampleImage(video, settings.roi, mirror);
+          // A frame still encoding when recording stopped is dropped
+          if (!timerRef.current) return;
+          bufferRef.current.push(createSample(current, image));
+          setBuffered(bufferRef.current.length);
+          if (limit !== undefined && bufferRef.current.length >= limit) stopRecording();
+        } catch (err) {
+          console.error("Failed to capture sample:", err);
+        }
+      }, RECORD_INTERVAL_MS);
+    },
+    [current, settings.roi, mirror, stopRecording]
+  );
+
+  // Pointer events reach the hold button even while it is disabled for a
+  // burst, so it only ever stops its own recording
+  const stopHold = () => {
+    if (recording === "hold") stopRecording();
+  };
+
+  useEffect(() => stopRecording, [stopRecording]);
+
+  const exportSamples = async () => {
+    try {
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      downloadBlob(await exportSamplesZip(await getSamples()), `amostras-${stamp}.zip`);
+    } catch (err) {
+      console.error("Failed to export samples:", err);
+    }
+  };
+
+  const addClass = () => {
+    const name = newClass.trim();
+    if (!name) return;
+    if (!classes.includes(name)) setExtraClasses((list) => [...list, name]);
+    setSelected(name);
+    setNewClass("");
+  };
+
+  return (
+    <div className="min-h-screen game-gradient flex flex-col items-center px-4 py-6 gap-6">
+      <header className="relative w-full max-w-4xl text-center">
+        <Link
+          to="/"
+          className="absolute left-0 top-0 text-sm text-muted-foreground hover:text-foreground"
+        >
+          ← Jogar
+        </Link>
+        <h1 className="text-4xl md:text-5xl font-display text-primary text-glow tracking-wide">
+          AMOSTRAS
+        </h1>
+        <p className="text-muted-foreground mt-1 text-sm font-body">
+          Grave exemplos de cada gesto para treinar o modelo de novo, sem sair do jogo.
+        </p>
+      </header>
+
+      <div className="w-full max-w-4xl flex flex-col md:flex-row items-center md:items-start gap-6">
+        <div className="flex flex-col items-center gap-3">
+          <WebcamView ref={webcamRef} mirror={mirror}>
+            {settings.roi && (
+              <RoiOverlay
+                roi={settings.roi}
+                locked={recording !== null}
+                onChange={(roi) => updateSettings({ roi })}
+              />
+            )}
+          </WebcamView>
+          <div className="flex gap-3">
+            <button
+              disabled={!current || recording === "burst"}
+              onPointerDown={() => startRecording()}
+              onPointerUp={stopHold}
+              onPointerLeave={stopHold}
+              onPointerCancel={stopHold}
+              className={`px-6 py-4 rounded-xl font-display text-lg transition-all active:scale-95 select-none touch-none disabled:opacity-30 ${
+                recording === "hold"
+                  ? "bg-destructive text-destructive-foreground"
+                  : "bg-primary text-primary-foreground hover:opacity-90"
+              }`}
+            >
+              {recording === "hold" ? `GRAVANDO… ${buffered}` : "SEGURE PARA GRAVAR"}
+            </button>
+            <button
+              disabled={!current || recording !== null}
+              onClick={() => startRecording(BURST_SIZE)}
+              className="px-6 py-4 rounded-xl font-display text-lg bg-muted text-muted-foreground hover:bg-muted/80 transition-all active:scale-95 disabled:opacity-30"
+            >
+              RAJADA ×{BURST_SIZE}
+            </button>
+          </div>
+        </div>
+
+        <section className="flex-1 w-full rounded-2xl bg-card border-2 border-border p-4 flex flex-col gap-3">
+          <div className="flex items-center justify-between gap-2">
+            <h2 className="font-display text-lg text-foreground">Classes</h2>
+            <button
+              disabled={Object.keys(counts).length === 0}
+              onClick={exportSamples}
+              className="text-xs text-muted-foreground underline hover:text-foreground disabled:opacity-30"
+            >
+              Exportar amostras (.zip)
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {classes.map((name) => (
+              <button
+                key={name}
+                onClick={() => setSelected(name)}
+                disabled={recording !== null}
+                className={`px-3 py-2 rounded-lg text-sm font-bold transition-colors ${
+                  name === current
+                    ? "bg-primary/20 text-primary ring-2 ring-primary"
+                    : "bg-muted text-muted-foreground hover:bg-muted/80"
+                }`}
+              >
+                {name} <span className="font-normal opacity-80">{counts[name] ?? 0}</span>
+              </button>
+            ))}
+          </div>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              addClass();
+            }}
+          >
+            <Input
+              value={newClass}
+              maxLength={32}
+              placeholder="Nova classe"
+              onChange={(e) => setNewClass(e.target.value)}
+            />
+            <button
+              type="submit"
+              disabled={!newClass.trim()}
+              className="px-4 py-2 rounded-xl font-display text-sm bg-muted text-muted-foreground hover:bg-muted/80 transition-all active:scale-95 disabled:opacity-30"
+            >
+              ADICIONAR
+            </button>
+          </form>
+          {error && <p className="text-destructive text-sm">Erro ao ler as amostras: {error}</p>}
+        </section>
+      </div>
+
+      {current && (
+        <section className="w-full max-w-4xl rounded-2xl bg-card border-2 border-border p-4 flex flex-col gap-3">
+          <div className="flex items-center justify-between gap-2">
+            <h2 className="font-display text-lg text-foreground">
+              {current} · {counts[current] ?? 0} amostras
+            </h2>
+            <button
+              disabled={!counts[current] || recording !== null}
+              onClick={() => setIsClearing(true)}
+              className="text-xs text-muted-foreground underline hover:text-destructive disabled:opacity-30"
+            >
+              Apagar todas
+            </button>
+          </div>
+          <SampleGrid
+            samples={samples}
+            onDelete={(id) =>
+              deleteSamples([id]).catch((err) => console.error("Failed to delete sample:", err))
+            }
+          />
+        </section>
+      )}
+
+      <TrainingPanel
+        counts={counts}
+        train={trainModel}
+        exportModel={exportModel}
+        isReady={isReady}
+        disabled={recording !== null}
+      />
+
+      <AlertDialog open={isClearing} onOpenChange={setIsClearing}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Apagar as amostras de {current}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              As {counts[current] ?? 0} amostras desta classe serão apagadas deste navegador.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                deleteClass(current).catch((err) => console.error("Failed to delete class:", err))
+              }
+            >
+              Apagar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Collect;
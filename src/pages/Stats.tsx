@@ -0,0 +1,220 @@
+import type { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import HistoryTransfer from "@/components/HistoryTransfer";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useProfiles } from "@/hooks/useProfiles";
+import { useRoundHistory } from "@/hooks/useRoundHistory";
+import { findGesture } from "@/lib/rules";
+import {
+  confidenceByGesture,
+  gestureDistribution,
+  strategyPerformance,
+  streaks,
+  winRateOverTime,
+} from "@/lib/stats";
+import { getStrategy } from "@/lib/strategies";
+
+const winRateConfig = {
+  cumulative: { label: "Geral", color: "hsl(var(--primary))" },
+  rolling: { label: "Últimas 10", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+const distributionConfig = {
+  player: { label: "Você", color: "hsl(var(--primary))" },
+  computer: { label: "CPU", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+const confidenceConfig = {
+  confidence: { label: "Confiança média", color: "hsl(var(--secondary))" },
+} satisfies ChartConfig;
+
+const STREAK_TEXT: Record<string, string> = {
+  win: "vitórias",
+  lose: "derrotas",
+  draw: "empates",
+};
+
+function gestureName(id: string) {
+  const gesture = findGesture(id);
+  return gesture ? `${gesture.emoji} ${gesture.label}` : id;
+}
+
+function percent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+const Stats = () => {
+  const { activeProfile } = useProfiles();
+  const { rounds, isLoading, error } = useRoundHistory({ profileId: activeProfile.id });
+
+  const winRate = winRateOverTime(rounds);
+  const distribution = gestureDistribution(rounds).map((g) => ({
+    ...g,
+    name: gestureName(g.gesture),
+  }));
+  const streak = streaks(rounds);
+  const strategies = strategyPerformance(rounds);
+  const confidence = confidenceByGesture(rounds).map((g) => ({
+    ...g,
+    name: gestureName(g.gesture),
+  }));
+  const wins = rounds.filter((r) => r.result === "win").length;
+
+  return (
+    <div className="min-h-screen game-gradient flex flex-col items-center px-4 py-6 gap-6">
+      <header className="relative w-full max-w-4xl text-center">
+        <Link
+          to="/"
+          className="absolute left-0 top-0 text-sm text-muted-foreground hover:text-foreground"
+        >
+          ← Jogar
+        </Link>
+        <h1 className="text-4xl md:text-5xl font-display text-primary text-glow tracking-wide">
+          ESTATÍSTICAS
+        </h1>
+        <p className="text-muted-foreground mt-1 text-sm font-body">
+          {activeProfile.avatar} {activeProfile.name} · rodadas salvas neste navegador.
+        </p>
+      </header>
+
+      <HistoryTransfer rounds={rounds} />
+
+      {error && <p className="text-destructive text-sm">Erro ao ler o histórico: {error}</p>}
+      {!isLoading && !error && rounds.length === 0 && (
+        <p className="text-muted-foreground text-sm">
+          Nenhuma rodada ainda. <Link to="/" className="text-primary underline">Jogue</Link> algumas
+          e volte aqui.
+        </p>
+      )}
+
+      {rounds.length > 0 && (
+        <div className="w-full max-w-4xl grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="md:col-span-2 grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Figure label="Rodadas" value={String(rounds.length)} />
+            <Figure label="Vitórias" value={percent(wins / rounds.length)} />
+            <Figure label="Maior sequência" value={`${streak.longestWin} vitórias`} />
+            <Figure
+              label="Sequência atual"
+              value={streak.current ? `${streak.current.length} ${STREAK_TEXT[streak.current.result]}` : "—"}
+            />
+          </div>
+
+          <StatsCard title="Taxa de vitória" className="md:col-span-2">
+            <ChartContainer config={winRateConfig} className="h-64 w-full aspect-auto">
+              <LineChart data={winRate}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="round" tickLine={false} axisLine={false} />
+                <YAxis domain={[0, 1]} tickFormatter={percent} tickLine={false} axisLine={false} />
+                <ChartTooltip
+                  content={<ChartTooltipContent formatter={(value) => percent(Number(value))} />}
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="cumulative" stroke="var(--color-cumulative)" dot={false} strokeWidth={2} />
+                <Line dataKey="rolling" stroke="var(--color-rolling)" dot={false} strokeWidth={2} />
+              </LineChart>
+            </ChartContainer>
+          </StatsCard>
+
+          <StatsCard title="Gestos: você × CPU">
+            <ChartContainer config={distributionConfig} className="h-64 w-full aspect-auto">
+              <BarChart data={distribution}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="player" fill="var(--color-player)" radius={4} />
+                <Bar dataKey="computer" fill="var(--color-computer)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </StatsCard>
+
+          <StatsCard title="Confiança do modelo por gesto">
+            <ChartContainer config={confidenceConfig} className="h-64 w-full aspect-auto">
+              <BarChart data={confidence}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                <YAxis domain={[0, 1]} tickFormatter={percent} tickLine={false} axisLine={false} />
+                <ChartTooltip
+                  content={<ChartTooltipContent formatter={(value) => percent(Number(value))} />}
+                />
+                <Bar dataKey="confidence" fill="var(--color-confidence)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </StatsCard>
+
+          <StatsCard title="Desempenho por dificuldade" className="md:col-span-2">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Dificuldade</TableHead>
+                  <TableHead>Rodadas</TableHead>
+                  <TableHead>Vitórias</TableHead>
+                  <TableHead>Derrotas</TableHead>
+                  <TableHead>Empates</TableHead>
+                  <TableHead>Taxa</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {strategies.map((s) => (
+                  <TableRow key={s.strategy}>
+                    <TableCell>{getStrategy(s.strategy).label}</TableCell>
+                    <TableCell>{s.rounds}</TableCell>
+                    <TableCell>{s.wins}</TableCell>
+                    <TableCell>{s.losses}</TableCell>
+                    <TableCell>{s.draws}</TableCell>
+                    <TableCell className="text-primary font-bold">{percent(s.winRate)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </StatsCard>
+        </div>
+      )}
+    </div>
+  );
+};
+
+function StatsCard({
+  title,
+  className = "",
+  children,
+}: {
+  title: string;
+  className?: string;
+  children: ReactNode;
+}) {
+  return (
+    <section className={`rounded-2xl bg-card border-2 border-border p-4 flex flex-col gap-3 ${className}`}>
+      <h2 className="font-display text-lg text-foreground">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function Figure({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-xl bg-card border-2 border-border px-4 py-3 text-center">
+      <div className="text-xs font-bold text-muted-foreground uppercase tracking-wider">{label}</div>
+      <div className="font-display text-2xl text-foreground mt-1">{value}</div>
+    </div>
+  );
+}
+
+export default Stats;
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_THRESHOLD,
+  pickGesture,
+  proposeThresholds,
+  type CalibrationSample,
+} from "@/lib/calibration";
+
+const frame = (probs: Record<string, number>) =>
+  Object.entries(probs).map(([className, probability]) => ({ className, probability }));
+
+const sample = (label: string, probs: Record<string, number>): CalibrationSample => ({
+  label,
+  predictions: frame(probs),
+});
+
+describe("pickGesture", () => {
+  it("matches the old global threshold by default", () => {
+    expect(pickGesture(frame({ rock: 0.7, paper: 0.3 }), {})).toBe("rock");
+    expect(pickGesture(frame({ rock: DEFAULT_THRESHOLD - 0.01, paper: 0.41 }), {})).toBe("idle");
+  });
+
+  it("applies each class's own threshold", () => {
+    const thresholds = { paper: 0.9, scisors: 0.4 };
+    expect(pickGesture(frame({ paper: 0.8, scisors: 0.2 }), thresholds)).toBe("idle");
+    expect(pickGesture(frame({ paper: 0.55, scisors: 0.45 }), thresholds)).toBe("scisors");
+  });
+
+  it("falls back when nothing clears its threshold", () => {
+    expect(pickGesture([], {})).toBe("idle");
+    expect(pickGesture(frame({ rock: 0.5 }), {}, "none")).toBe("none");
+  });
+});
+
+describe("proposeThresholds", () => {
+  it("places the threshold midway between the classes", () => {
+    const samples = [
+      sample("paper", { paper: 0.8, rock: 0.2 }),
+      sample("paper", { paper: 0.9, rock: 0.1 }),
+      sample("rock", { paper: 0.3, rock: 0.7 }),
+      sample("rock", { paper: 0.1, rock: 0.9 }),
+    ];
+    const [paper, rock] = proposeThresholds(samples, ["paper", "rock"]);
+
+    expect(paper.className).toBe("paper");
+    expect(paper.threshold).toBeCloseTo(0.55);
+    expect(paper.truePositiveRate).toBe(1);
+    expect(paper.falsePositiveRate).toBe(0);
+    expect(rock.threshold).toBeCloseTo(0.45);
+  });
+
+  it("trades off overlapping distributions", () => {
+    const samples = [
+      sample("paper", { paper: 0.95 }),
+      sample("paper", { paper: 0.9 }),
+      sample("paper", { paper: 0.5 }),
+      sample("rock", { paper: 0.85 }),
+      sample("rock", { paper: 0.2 }),
+      sample("rock", { paper: 0.1 }),
+    ];
+    const [paper] = proposeThresholds(samples, ["paper"]);
+
+    expect(paper.threshold).toBeGreaterThan(0.2);
+    expect(paper.threshold).toBeLessThanOrEqual(0.5);
+    expect(paper.truePositiveRate).toBe(1);
+    expect(paper.falsePositiveRate).toBeCloseTo(1 / 3);
+  });
+
+  it("skips classes without recordings", () => {
+    const samples = [sample("rock", { rock: 0.9 }), sample("paper", { rock: 0.1 })];
+    expect(proposeThresholds(samples, ["rock", "scisors"]).map((p) => p.className)).toEqual([
+      "rock",
+    ]);
+  });
+});
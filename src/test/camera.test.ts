@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CAMERA, getVideoConstraints, resolveDeviceId } from "@/lib/camera";
+
+const usb = { deviceId: "usb", label: "USB Camera" };
+const builtIn = { deviceId: "built-in", label: "FaceTime HD" };
+
+describe("resolveDeviceId", () => {
+  it("keeps the chosen camera while it's plugged in", () => {
+    expect(resolveDeviceId([builtIn, usb], "usb")).toBe("usb");
+  });
+
+  it("falls back to the default camera once it's unplugged", () => {
+    expect(resolveDeviceId([builtIn], "usb")).toBeNull();
+  });
+
+  it("trusts the choice until devices can be told apart", () => {
+    expect(resolveDeviceId(null, "usb")).toBe("usb");
+    expect(resolveDeviceId([{ deviceId: "", label: "Câmera 1" }], "usb")).toBe("usb");
+  });
+});
+
+describe("getVideoConstraints", () => {
+  it("opens the front camera by default", () => {
+    expect(getVideoConstraints(DEFAULT_CAMERA, null)).toEqual({
+      facingMode: "user",
+      width: { ideal: 400 },
+      height: { ideal: 400 },
+      frameRate: { ideal: 30 },
+    });
+  });
+
+  it("requires the chosen device exactly", () => {
+    const constraints = getVideoConstraints({ resolution: "720p", frameRate: 15 }, "usb");
+    expect(constraints.deviceId).toEqual({ exact: "usb" });
+    expect(constraints.facingMode).toBeUndefined();
+    expect(constraints.width).toEqual({ ideal: 1280 });
+    expect(constraints.frameRate).toEqual({ ideal: 15 });
+  });
+});
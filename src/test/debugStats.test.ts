@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { framesPerSecond, getDebugStats, reportFrame } from "@/lib/debugStats";
+
+describe("framesPerSecond", () => {
+  it("counts the frames within the last second", () => {
+    expect(framesPerSecond([0, 100, 900, 1000, 1500], 1500)).toBe(3);
+    expect(framesPerSecond([], 1000)).toBe(0);
+  });
+
+  it("scales to the window", () => {
+    expect(framesPerSecond([1600, 1800], 2000, 500)).toBe(4);
+  });
+});
+
+describe("reportFrame", () => {
+  it("keeps the latest frame and the rate it arrives at", () => {
+    for (let i = 0; i < 10; i++) {
+      reportFrame({ predictions: [], latencyMs: 12, timestamp: 10_000 + i * 50 });
+    }
+    const { frame, fps } = getDebugStats();
+    expect(frame.timestamp).toBe(10_450);
+    expect(fps).toBe(10);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  exportRoundsCsv,
+  exportRoundsJson,
+  newRounds,
+  parseCsv,
+  parseRoundsFile,
+} from "@/lib/historyExport";
+import type { StoredRound } from "@/lib/roundHistory";
+
+const frame = (probs: Record<string, number>) =>
+  Object.entries(probs).map(([className, probability]) => ({ className, probability }));
+
+const round = (id: string, patch: Partial<StoredRound> = {}): StoredRound => ({
+  id,
+  timestamp: 1700000000000,
+  sessionId: "session",
+  profileId: "default",
+  match: 1,
+  player: "rock",
+  computer: "scisors",
+  result: "win",
+  predictions: frame({ rock: 0.9, "Class, 2": 0.1 }),
+  readings: [
+    { gesture: "rock", predictions: frame({ rock: 0.8, "Class, 2": 0.2 }) },
+    { gesture: "idle", predictions: frame({ rock: 1, "Class, 2": 0 }) },
+  ],
+  strategy: "markov",
+  ruleSet: "classic",
+  modelId: "model@2@1",
+  ...patch,
+});
+
+describe("parseCsv", () => {
+  it("handles quotes, escaped quotes and CRLF", () => {
+    expect(parseCsv('a,"b,c","say ""hi"""\r\n1,2,3\r\n')).toEqual([
+      ["a", "b,c", 'say "hi"'],
+      ["1", "2", "3"],
+    ]);
+  });
+});
+
+describe("CSV export", () => {
+  it("writes a column per class and per reading", () => {
+    const [header] = parseCsv(exportRoundsCsv([round("a")]));
+    expect(header).toContain("p_rock");
+    expect(header).toContain("p_Class, 2");
+    expect(header).toContain("reading2_gesture");
+    expect(header).toContain("reading2_p_rock");
+  });
+
+  it("round-trips through the importer", () => {
+    const rounds = [round("a"), round("b", { readings: [], predictions: [], modelId: null })];
+    expect(parseRoundsFile(exportRoundsCsv(rounds))).toEqual(rounds);
+  });
+});
+
+describe("JSON export", () => {
+  it("round-trips through the importer", () => {
+    const rounds = [round("a"), round("b", { result: "draw" })];
+    expect(parseRoundsFile(exportRoundsJson(rounds))).toEqual(rounds);
+  });
+
+  it("rejects other JSON files", () => {
+    expect(() => parseRoundsFile('{"rounds": []}')).toThrow(/not a rps-history export/);
+    expect(() => parseRoundsFile("[{}]")).toThrow(/round 1 is missing/);
+  });
+});
+
+describe("newRounds", () => {
+  it("skips rounds that are already stored or repeated", () => {
+    const added = newRounds([round("a")], [round("a"), round("b"), round("b")]);
+    expect(added.map((r) => r.id)).toEqual(["b"]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { frameIndexAt, parseInputSourceQuery, sortImageFiles } from "@/lib/inputSources";
+
+describe("parseInputSourceQuery", () => {
+  it("reads the synthetic, video and image sources", () => {
+    expect(parseInputSourceQuery("?source=synthetic")).toEqual({ kind: "synthetic" });
+    expect(parseInputSourceQuery("?source=video&url=/clips/rock.webm")).toEqual({
+      kind: "video",
+      url: "/clips/rock.webm",
+      name: "/clips/rock.webm",
+    });
+    expect(parseInputSourceQuery("?source=images&url=/a.png&url=/b.png")).toEqual({
+      kind: "images",
+      urls: ["/a.png", "/b.png"],
+      name: "2 imagens",
+    });
+  });
+
+  it("keeps the camera when the query is missing or incomplete", () => {
+    expect(parseInputSourceQuery("")).toBeNull();
+    expect(parseInputSourceQuery("?source=video")).toBeNull();
+    expect(parseInputSourceQuery("?source=microscope")).toBeNull();
+  });
+});
+
+describe("sortImageFiles", () => {
+  it("keeps only images, in natural name order", () => {
+    const files = ["frame10.png", "notes.txt", "frame2.png", "frame1.jpg"].map(
+      (name) => new File([""], name, { type: name.endsWith(".txt") ? "text/plain" : "image/png" })
+    );
+    expect(sortImageFiles(files).map((f) => f.name)).toEqual([
+      "frame1.jpg",
+      "frame2.png",
+      "frame10.png",
+    ]);
+  });
+});
+
+describe("frameIndexAt", () => {
+  it("loops through the sequence at the given interval", () => {
+    expect(frameIndexAt(0, 1000, 3)).toBe(0);
+    expect(frameIndexAt(1999, 1000, 3)).toBe(1);
+    expect(frameIndexAt(3500, 1000, 3)).toBe(0);
+    expect(frameIndexAt(500, 1000, 0)).toBe(0);
+  });
+});
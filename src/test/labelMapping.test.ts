@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  matchAlias,
+  normalizeLabel,
+  resolveLabelMapping,
+  toGesture,
+} from "@/lib/labelMapping";
+import { classicRules, getRuleEngine } from "@/lib/rules";
+
+describe("normalizeLabel", () => {
+  it("ignores case, accents and separators", () => {
+    expect(normalizeLabel("  Mão_Aberta ")).toBe("mao aberta");
+    expect(normalizeLabel("Sem-Gesto")).toBe("sem gesto");
+  });
+});
+
+describe("matchAlias", () => {
+  it("matches ids, display names and aliases", () => {
+    expect(matchAlias("scisors", classicRules)).toBe("scisors");
+    expect(matchAlias("Scissors", classicRules)).toBe("scisors");
+    expect(matchAlias("Pedra", classicRules)).toBe("rock");
+    expect(matchAlias("Fundo", classicRules)).toBe("idle");
+    expect(matchAlias("Class 1", classicRules)).toBeNull();
+  });
+
+  it("only knows the gestures of the rule set", () => {
+    expect(matchAlias("Lagarto", classicRules)).toBeNull();
+    expect(matchAlias("Lagarto", getRuleEngine("rpsls"))).toBe("lizard");
+  });
+});
+
+describe("resolveLabelMapping", () => {
+  it("maps the bundled model's labels without setup", () => {
+    const { mapping, unmapped, missing } = resolveLabelMapping(
+      ["idle", "scisors", "paper", "rock"],
+      classicRules,
+      {}
+    );
+    expect(mapping).toEqual({ idle: "idle", scisors: "scisors", paper: "paper", rock: "rock" });
+    expect(unmapped).toEqual([]);
+    expect(missing).toEqual([]);
+  });
+
+  it("applies overrides and reports what is left", () => {
+    const { mapping, unmapped, missing } = resolveLabelMapping(
+      ["Class 1", "Class 2", "Tesoura"],
+      classicRules,
+      { "Class 1": "rock", "Class 2": "lizard" }
+    );
+    expect(mapping).toEqual({ "Class 1": "rock", Tesoura: "scisors" });
+    expect(unmapped).toEqual(["Class 2"]);
+    expect(missing).toEqual(["paper"]);
+  });
+
+  it("lets an override win over an alias", () => {
+    const { mapping } = resolveLabelMapping(["rock"], classicRules, { rock: "idle" });
+    expect(mapping.rock).toBe("idle");
+  });
+});
+
+describe("toGesture", () => {
+  it("treats unmapped labels as idle", () => {
+    expect(toGesture({ a: "rock" }, "a")).toBe("rock");
+    expect(toGesture({ a: "rock" }, "b")).toBe("idle");
+  });
+
+  it("keeps reading when the rules change mid-round", () => {
+    const labels = ["idle", "rock", "paper", "scisors", "lizard", "spock"];
+    const before = resolveLabelMapping(labels, getRuleEngine("rpsls"), {}).mapping;
+    expect(toGesture(before, "lizard")).toBe("lizard");
+
+    // Switching to classic during the countdown leaves Lizard and Spock unmapped
+    const after = resolveLabelMapping(labels, classicRules, {}).mapping;
+    expect(toGesture(after, "lizard")).toBe("idle");
+    expect(toGesture(after, "spock")).toBe("idle");
+    expect(toGesture(after, "rock")).toBe("rock");
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { getMatchFormat, getMatchOutcome, getWinsNeeded } from "@/lib/matchFormats";
+
+const score = (player: number, computer: number, rounds = player + computer) => ({
+  player,
+  computer,
+  rounds,
+});
+
+describe("getMatchOutcome", () => {
+  it("never ends an endless match", () => {
+    expect(getMatchOutcome({ kind: "endless" }, score(50, 0), 1e9)).toBeNull();
+  });
+
+  it("decides a best-of by wins, ignoring drawn rounds", () => {
+    const format = { kind: "best-of", rounds: 5 } as const;
+    expect(getWinsNeeded(format)).toBe(3);
+    expect(getMatchOutcome(format, score(2, 2, 7), 0)).toBeNull();
+    expect(getMatchOutcome(format, score(1, 3), 0)).toBe("computer");
+  });
+
+  it("ends a first-to when someone reaches the target", () => {
+    const format = { kind: "first-to", target: 3 } as const;
+    expect(getMatchOutcome(format, score(2, 0), 0)).toBeNull();
+    expect(getMatchOutcome(format, score(3, 2), 0)).toBe("player");
+  });
+
+  it("ends fixed rounds on the round count, allowing a draw", () => {
+    const format = { kind: "fixed-rounds", rounds: 5 } as const;
+    expect(getMatchOutcome(format, score(2, 1, 4), 0)).toBeNull();
+    expect(getMatchOutcome(format, score(2, 2, 5), 0)).toBe("draw");
+  });
+
+  it("ends a blitz when the clock runs out", () => {
+    const format = { kind: "blitz", durationMs: 60_000 } as const;
+    expect(getMatchOutcome(format, score(4, 1), 59_999)).toBeNull();
+    expect(getMatchOutcome(format, score(4, 1), 60_000)).toBe("player");
+  });
+});
+
+describe("getMatchFormat", () => {
+  it("falls back to endless for unknown ids", () => {
+    expect(getMatchFormat("nope" as never)).toEqual({ kind: "endless" });
+  });
+});
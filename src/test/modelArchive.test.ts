@@ -0,0 +1,129 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import * as tf from "@tensorflow/tfjs";
+import JSZip from "jszip";
+import {
+  buildModel,
+  readModelArchive,
+  serializeModel,
+  writeModelArchive,
+} from "@/lib/modelArchive";
+
+beforeAll(async () => {
+  await tf.setBackend("cpu");
+});
+
+describe("writeModelArchive", () => {
+  it("round-trips a model through the export zip", async () => {
+    const model = tf.sequential({
+      layers: [tf.layers.dense({ inputShape: [3], units: 2, activation: "softmax" })],
+    });
+    const metadata = { labels: ["rock", "paper"], modelName: "treinado-no-navegador" };
+
+    const zip = await writeModelArchive({ ...(await serializeModel(model)), metadata });
+    const archive = await readModelArchive(zip);
+    const loaded = await buildModel(archive);
+
+    expect(archive.metadata).toEqual(metadata);
+    const input = tf.tensor2d([[1, -2, 3]]);
+    const expected = await (model.predict(input) as tf.Tensor).data();
+    const actual = await (loaded.predict(input) as tf.Tensor).data();
+    expect(Array.from(actual)).toEqual(Array.from(expected));
+  });
+});
+
+describe("readModelArchive", () => {
+  type Files = Record<string, string | ArrayBuffer>;
+
+  // The files of a valid export of a 3-input, 2-class model
+  async function validFiles(): Promise<Files> {
+    const model = tf.sequential({
+      layers: [tf.layers.dense({ inputShape: [3], units: 2, activation: "softmax" })],
+    });
+    const { modelTopology, weightSpecs, weightData } = await serializeModel(model);
+    return {
+      "model.json": JSON.stringify({
+        modelTopology,
+        weightsManifest: [{ paths: ["weights.bin"], weights: weightSpecs }],
+      }),
+      "weights.bin": weightData,
+      "metadata.json": JSON.stringify({ labels: ["rock", "paper"] }),
+    };
+  }
+
+  async function zipOf(files: Files): Promise<Blob> {
+    const zip = new JSZip();
+    for (const [name, content] of Object.entries(files)) zip.file(name, content);
+    return zip.generateAsync({ type: "blob" });
+  }
+
+  async function read(patch: (files: Files) => void) {
+    const files = await validFiles();
+    patch(files);
+    return readModelArchive(await zipOf(files));
+  }
+
+  it("accepts a valid export, even inside a folder", async () => {
+    const files = await validFiles();
+    const nested = Object.fromEntries(
+      Object.entries(files).map(([name, content]) => [`export/${name}`, content])
+    );
+    const archive = await readModelArchive(await zipOf(nested));
+    expect(archive.metadata.labels).toEqual(["rock", "paper"]);
+  });
+
+  it("rejects files that are not a zip", async () => {
+    await expect(readModelArchive(new Blob(["not a zip"]))).rejects.toThrow(
+      "file is not a valid zip archive"
+    );
+  });
+
+  it("rejects a missing metadata.json or model.json", async () => {
+    await expect(read((f) => delete f["metadata.json"])).rejects.toThrow(
+      "metadata.json not found in model files"
+    );
+    await expect(read((f) => delete f["model.json"])).rejects.toThrow(
+      "model.json not found in model files"
+    );
+  });
+
+  it("rejects metadata without class labels", async () => {
+    await expect(read((f) => (f["metadata.json"] = '{"labels":[]}'))).rejects.toThrow(
+      "metadata.json has no class labels"
+    );
+    await expect(read((f) => (f["metadata.json"] = "{labels"))).rejects.toThrow(
+      "metadata.json is not valid JSON"
+    );
+  });
+
+  it("rejects a model.json without topology or weights manifest", async () => {
+    const without = (key: string) => (f: Files) => {
+      const json = JSON.parse(f["model.json"] as string);
+      delete json[key];
+      f["model.json"] = JSON.stringify(json);
+    };
+    await expect(read(without("modelTopology"))).rejects.toThrow(
+      "model.json has no modelTopology"
+    );
+    await expect(read(without("weightsManifest"))).rejects.toThrow(
+      "model.json has no weightsManifest"
+    );
+  });
+
+  it("rejects missing or truncated weights", async () => {
+    await expect(read((f) => delete f["weights.bin"])).rejects.toThrow(
+      "weights.bin not found in model files"
+    );
+    await expect(
+      read((f) => (f["weights.bin"] = (f["weights.bin"] as ArrayBuffer).slice(4)))
+    ).rejects.toThrow("weights are 28 bytes but model.json expects 32");
+  });
+
+  it("rejects a model whose outputs don't match the labels", async () => {
+    const archive = await read(
+      (f) => (f["metadata.json"] = JSON.stringify({ labels: ["rock", "paper", "scissors"] }))
+    );
+    await expect(buildModel(archive)).rejects.toThrow(
+      "model has 2 outputs but metadata.json lists 3 labels"
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import * as tf from "@tensorflow/tfjs";
+import JSZip from "jszip";
+import { webcrypto } from "node:crypto";
+import { loadModelFromUrl } from "@/lib/modelCache";
+import { serializeModel, writeModelArchive } from "@/lib/modelArchive";
+
+const MODEL_URL = "https://example.com/model.zip";
+
+beforeAll(async () => {
+  await tf.setBackend("cpu");
+});
+
+// jsdom's SubtleCrypto rejects the ArrayBuffers that Node's fetch returns
+beforeEach(() => {
+  vi.stubGlobal("crypto", {
+    subtle: {
+      digest: (algorithm: string, data: ArrayBuffer) =>
+        webcrypto.subtle.digest(algorithm, Buffer.from(data)),
+    },
+  });
+});
+
+// A tiny model zip; the time stamp tells versions apart
+async function modelZip(timeStamp: string): Promise<ArrayBuffer> {
+  const model = tf.sequential({
+    layers: [tf.layers.dense({ inputShape: [3], units: 2, activation: "softmax" })],
+  });
+  const serialized = await serializeModel(model);
+  model.dispose();
+  const zip = await writeModelArchive({
+    ...serialized,
+    metadata: { labels: ["rock", "paper"], timeStamp },
+  });
+  // jsdom's Blob can't be read back directly
+  return (await JSZip.loadAsync(zip)).generateAsync({ type: "arraybuffer" });
+}
+
+/** Serves `zip` with the given headers and records every request method. */
+function serve(zip: ArrayBuffer, headers: Record<string, string> = {}) {
+  const methods: string[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init?: RequestInit) => {
+      const method = init?.method ?? "GET";
+      methods.push(method);
+      return new Response(method === "HEAD" ? null : zip, { headers });
+    })
+  );
+  return methods;
+}
+
+describe("loadModelFromUrl", () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("reuses the cached model while the ETag matches", async () => {
+    const zip = await modelZip("v1");
+    serve(zip, { etag: '"v1"' });
+    expect((await loadModelFromUrl(MODEL_URL)).fromCache).toBe(false);
+
+    const methods = serve(zip, { etag: '"v1"' });
+    const loaded = await loadModelFromUrl(MODEL_URL);
+    expect(loaded.fromCache).toBe(true);
+    expect(loaded.metadata.timeStamp).toBe("v1");
+    expect(methods).toEqual(["HEAD"]);
+  });
+
+  it("downloads again when the ETag changed", async () => {
+    serve(await modelZip("v1"), { etag: '"v1"' });
+    await loadModelFromUrl(MODEL_URL);
+
+    const methods = serve(await modelZip("v2"), { etag: '"v2"' });
+    const loaded = await loadModelFromUrl(MODEL_URL);
+    expect(loaded.fromCache).toBe(false);
+    expect(loaded.metadata.timeStamp).toBe("v2");
+    expect(methods).toEqual(["HEAD", "GET"]);
+  });
+
+  it("uses the cached model when offline", async () => {
+    serve(await modelZip("v1"), { etag: '"v1"' });
+    await loadModelFromUrl(MODEL_URL);
+
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("Failed to fetch")));
+    const loaded = await loadModelFromUrl(MODEL_URL);
+    expect(loaded.fromCache).toBe(true);
+    expect(loaded.metadata.timeStamp).toBe("v1");
+  });
+
+  it("trusts a recent download when the server sends no validators", async () => {
+    const zip = await modelZip("v1");
+    serve(zip);
+    await loadModelFromUrl(MODEL_URL);
+
+    let methods = serve(zip);
+    expect((await loadModelFromUrl(MODEL_URL)).fromCache).toBe(true);
+    expect(methods).toEqual(["HEAD"]);
+
+    // Past the time-to-live the zip is downloaded again
+    vi.spyOn(Date, "now").mockReturnValue(Date.now() + 2 * 60 * 60 * 1000);
+    methods = serve(zip);
+    await loadModelFromUrl(MODEL_URL);
+    expect(methods).toEqual(["HEAD", "GET"]);
+  });
+});
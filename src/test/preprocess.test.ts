@@ -0,0 +1,196 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import * as tf from "@tensorflow/tfjs";
+import {
+  getPreprocessConfig,
+  preprocessPixels,
+  resolveMirror,
+  TEACHABLE_MACHINE_PREPROCESS,
+  type PreprocessConfig,
+} from "@/lib/preprocess";
+
+// Unmirrored unless a test asks for it, so each test checks a single step.
+const config = (overrides: Partial<PreprocessConfig>): PreprocessConfig => ({
+  ...TEACHABLE_MACHINE_PREPROCESS,
+  mirror: false,
+  ...overrides,
+});
+
+// Builds a [height, width, 3] image where every channel of a pixel holds the same value.
+function grayImage(rows: number[][]) {
+  return tf.tensor3d(rows.map((row) => row.map((v) => [v, v, v])));
+}
+
+// Reads the red channel of a batch of one, rounded to hide float32 noise.
+function firstChannel(input: tf.Tensor4D) {
+  const rows = (input.squeeze([0]) as tf.Tensor3D)
+    .slice([0, 0, 0], [-1, -1, 1])
+    .squeeze([2])
+    .arraySync() as number[][];
+  return rows.map((row) => row.map((v) => Math.round(v * 1000) / 1000));
+}
+
+beforeAll(async () => {
+  await tf.setBackend("cpu");
+});
+
+describe("getPreprocessConfig", () => {
+  it("defaults to the Teachable Machine conventions", () => {
+    expect(getPreprocessConfig({ labels: ["a"] })).toEqual(TEACHABLE_MACHINE_PREPROCESS);
+  });
+
+  it("takes the image size from metadata.json", () => {
+    expect(getPreprocessConfig({ labels: ["a"], imageSize: 96 }).imageSize).toBe(96);
+  });
+
+  it("lets userMetadata.preprocessing override the defaults", () => {
+    const result = getPreprocessConfig({
+      labels: ["a"],
+      imageSize: 96,
+      userMetadata: { preprocessing: { normalization: "zero-to-one", crop: "stretch" } },
+    });
+    expect(result).toEqual({
+      imageSize: 96,
+      crop: "stretch",
+      normalization: "zero-to-one",
+      mirror: true,
+      roi: null,
+    });
+  });
+});
+
+describe("resolveMirror", () => {
+  it("follows the model unless the player forces a side", () => {
+    expect(resolveMirror("auto", true)).toBe(true);
+    expect(resolveMirror("auto", false)).toBe(false);
+    expect(resolveMirror("on", false)).toBe(true);
+    expect(resolveMirror("off", true)).toBe(false);
+  });
+});
+
+describe("preprocessPixels", () => {
+  it("center-crops wide frames to a square before resizing", () => {
+    const pixels = grayImage([
+      [0, 51, 102, 255],
+      [0, 51, 102, 255],
+    ]);
+    const input = preprocessPixels(
+      tf,
+      pixels,
+      config({ imageSize: 2, normalization: "zero-to-one" })
+    );
+
+    expect(input.shape).toEqual([1, 2, 2, 3]);
+    expect(firstChannel(input)).toEqual([
+      [0.2, 0.4],
+      [0.2, 0.4],
+    ]);
+  });
+
+  it("center-crops tall frames to a square before resizing", () => {
+    const pixels = grayImage([
+      [255, 255],
+      [51, 51],
+      [0, 0],
+      [102, 102],
+    ]);
+    const input = preprocessPixels(tf, pixels, config({ imageSize: 2, normalization: "zero-to-one" }));
+
+    expect(firstChannel(input)).toEqual([
+      [0.2, 0.2],
+      [0, 0],
+    ]);
+  });
+
+  it("stretches the whole frame when crop is disabled", () => {
+    const pixels = grayImage([[0, 0, 255, 255]]);
+    const input = preprocessPixels(
+      tf,
+      pixels,
+      config({ imageSize: 2, crop: "stretch", normalization: "zero-to-one" })
+    );
+
+    expect(input.shape).toEqual([1, 2, 2, 3]);
+    expect(firstChannel(input)).toEqual([
+      [0, 1],
+      [0, 1],
+    ]);
+  });
+
+  it("scales pixels to [-1, 1]", () => {
+    const pixels = grayImage([
+      [0, 127.5],
+      [255, 255],
+    ]);
+    const input = preprocessPixels(tf, pixels, config({ imageSize: 2 }));
+
+    expect(firstChannel(input)).toEqual([
+      [-1, 0],
+      [1, 1],
+    ]);
+  });
+
+  it("scales pixels to [0, 1]", () => {
+    const pixels = grayImage([
+      [0, 127.5],
+      [255, 255],
+    ]);
+    const input = preprocessPixels(tf, pixels, config({ imageSize: 2, normalization: "zero-to-one" }));
+
+    expect(firstChannel(input)).toEqual([
+      [0, 0.5],
+      [1, 1],
+    ]);
+  });
+
+  it("flips the frame horizontally when mirror is set", () => {
+    const pixels = grayImage([
+      [0, 255],
+      [0, 255],
+    ]);
+    const input = preprocessPixels(
+      tf,
+      pixels,
+      config({ imageSize: 2, normalization: "zero-to-one", mirror: true })
+    );
+
+    expect(firstChannel(input)).toEqual([
+      [1, 0],
+      [1, 0],
+    ]);
+  });
+
+  it("crops the region of interest after mirroring", () => {
+    const pixels = grayImage([
+      [0, 0, 0, 255],
+      [0, 0, 0, 255],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ]);
+    const input = preprocessPixels(
+      tf,
+      pixels,
+      config({
+        imageSize: 2,
+        normalization: "zero-to-one",
+        mirror: true,
+        roi: { x: 0, y: 0, size: 0.5 },
+      })
+    );
+
+    // The bright column ends up on the left once mirrored, inside the box
+    expect(firstChannel(input)).toEqual([
+      [1, 0],
+      [1, 0],
+    ]);
+  });
+
+  it("does not leak intermediate tensors", () => {
+    const pixels = grayImage([[0, 255]]);
+    const before = tf.memory().numTensors;
+    const input = preprocessPixels(tf, pixels, config({ imageSize: 4 }));
+
+    expect(tf.memory().numTensors).toBe(before + 1);
+    input.dispose();
+    pixels.dispose();
+  });
+});
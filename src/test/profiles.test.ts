@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Both stores read localStorage when first imported, so each test loads fresh copies
+async function loadStores() {
+  vi.resetModules();
+  const profiles = await import("@/lib/profiles");
+  const settings = await import("@/lib/settings");
+  return { ...profiles, ...settings };
+}
+
+describe("profiles", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("starts with the default profile", async () => {
+    const { getProfiles, getActiveProfileId, DEFAULT_PROFILE_ID } = await loadStores();
+    expect(getProfiles()).toHaveLength(1);
+    expect(getActiveProfileId()).toBe(DEFAULT_PROFILE_ID);
+  });
+
+  it("keeps per-player settings apart and shares the rest", async () => {
+    const { createProfile, switchProfile, getSettings, updateSettings, DEFAULT_PROFILE_ID } =
+      await loadStores();
+
+    updateSettings({ difficulty: "markov", thresholds: { rock: 0.8 }, backend: "cpu" });
+    createProfile("Ana", "🦊");
+    expect(getSettings().difficulty).toBe("random");
+    expect(getSettings().thresholds).toEqual({});
+    expect(getSettings().backend).toBe("cpu");
+
+    updateSettings({ difficulty: "easy" });
+    switchProfile(DEFAULT_PROFILE_ID);
+    expect(getSettings().difficulty).toBe("markov");
+    expect(getSettings().thresholds).toEqual({ rock: 0.8 });
+  });
+
+  it("gives settings saved before profiles to the default profile", async () => {
+    localStorage.setItem("rps-settings", JSON.stringify({ difficulty: "wsls" }));
+    const { getSettings, createProfile } = await loadStores();
+    expect(getSettings().difficulty).toBe("wsls");
+    createProfile("Bia", "🐼");
+    expect(getSettings().difficulty).toBe("random");
+  });
+
+  it("keeps legacy per-player settings after another profile saves", async () => {
+    localStorage.setItem(
+      "rps-settings",
+      JSON.stringify({ difficulty: "wsls", thresholds: { rock: 0.7 }, backend: "wasm" })
+    );
+    const { createProfile, switchProfile, getSettings, updateSettings, DEFAULT_PROFILE_ID } =
+      await loadStores();
+
+    createProfile("Ana", "🦊");
+    updateSettings({ debugOverlay: true });
+    switchProfile(DEFAULT_PROFILE_ID);
+
+    expect(getSettings().difficulty).toBe("wsls");
+    expect(getSettings().thresholds).toEqual({ rock: 0.7 });
+    expect(getSettings().backend).toBe("wasm");
+    expect(getSettings().debugOverlay).toBe(true);
+  });
+
+  it("never deletes the last profile", async () => {
+    const { createProfile, deleteProfile, getProfiles, getActiveProfileId, DEFAULT_PROFILE_ID } =
+      await loadStores();
+    const ana = createProfile("Ana", "🦊");
+    deleteProfile(ana.id);
+    expect(getActiveProfileId()).toBe(DEFAULT_PROFILE_ID);
+    deleteProfile(DEFAULT_PROFILE_ID);
+    expect(getProfiles()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { clampRoi, MIN_ROI_SIZE, moveRoi, resizeRoi } from "@/lib/roi";
+
+describe("clampRoi", () => {
+  it("keeps the box inside the frame", () => {
+    expect(clampRoi({ x: 0.8, y: -0.1, size: 0.5 })).toEqual({ x: 0.5, y: 0, size: 0.5 });
+  });
+
+  it("enforces the minimum and maximum size", () => {
+    expect(clampRoi({ x: 0, y: 0, size: 0.01 }).size).toBe(MIN_ROI_SIZE);
+    expect(clampRoi({ x: 0.2, y: 0.2, size: 2 })).toEqual({ x: 0, y: 0, size: 1 });
+  });
+});
+
+describe("moveRoi", () => {
+  it("moves without changing the size and stops at the edges", () => {
+    const roi = { x: 0.25, y: 0.25, size: 0.5 };
+    expect(moveRoi(roi, 0.1, -0.05)).toEqual({ x: 0.35, y: 0.2, size: 0.5 });
+    expect(moveRoi(roi, 1, 1)).toEqual({ x: 0.5, y: 0.5, size: 0.5 });
+  });
+});
+
+describe("resizeRoi", () => {
+  it("grows from the top-left corner by the larger drag", () => {
+    const roi = resizeRoi({ x: 0.1, y: 0.1, size: 0.4 }, 0.2, 0.1);
+    expect(roi.x).toBe(0.1);
+    expect(roi.y).toBe(0.1);
+    expect(roi.size).toBeCloseTo(0.6);
+  });
+
+  it("never grows past the frame or shrinks below the minimum", () => {
+    expect(resizeRoi({ x: 0.1, y: 0.3, size: 0.4 }, 1, 1).size).toBeCloseTo(0.7);
+    expect(resizeRoi({ x: 0.1, y: 0.3, size: 0.4 }, -1, -1).size).toBe(MIN_ROI_SIZE);
+  });
+});
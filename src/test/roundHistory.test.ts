@@ -0,0 +1,119 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  averagePredictions,
+  clearRounds,
+  createId,
+  getRounds,
+  saveRounds,
+  type StoredRound,
+} from "@/lib/roundHistory";
+
+const frame = (probs: Record<string, number>) =>
+  Object.entries(probs).map(([className, probability]) => ({ className, probability }));
+
+describe("averagePredictions", () => {
+  it("averages each class over the readings", () => {
+    const average = averagePredictions([
+      frame({ rock: 0.8, paper: 0.2 }),
+      frame({ rock: 0.4, paper: 0.6 }),
+    ]);
+    expect(average.map((p) => p.className)).toEqual(["rock", "paper"]);
+    expect(average[0].probability).toBeCloseTo(0.6);
+    expect(average[1].probability).toBeCloseTo(0.4);
+  });
+
+  it("is empty without readings", () => {
+    expect(averagePredictions([])).toEqual([]);
+  });
+});
+
+describe("createId", () => {
+  it("does not repeat", () => {
+    expect(createId()).not.toBe(createId());
+  });
+});
+
+function round(id: string, profileId: string, timestamp: number): StoredRound {
+  return {
+    id,
+    timestamp,
+    sessionId: "session",
+    profileId,
+    match: 1,
+    player: "rock",
+    computer: "paper",
+    result: "lose",
+    predictions: [],
+    readings: [],
+    strategy: "random",
+    ruleSet: "classic",
+    modelId: null,
+  };
+}
+
+// A database as the first schema left it, before rounds had a profile
+async function createV1Database(rounds: Omit<StoredRound, "profileId">[]) {
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open("rps-history", 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore("rounds", { keyPath: "id" });
+      store.createIndex("timestamp", "timestamp");
+      store.createIndex("sessionId", "sessionId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  const tx = db.transaction("rounds", "readwrite");
+  for (const r of rounds) tx.objectStore("rounds").put(r);
+  await new Promise((resolve) => (tx.oncomplete = resolve));
+  db.close();
+}
+
+describe("round storage", () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  it("gives rounds saved before profiles to the default profile", async () => {
+    const { profileId: _, ...legacy } = round("old", "", 1);
+    await createV1Database([legacy]);
+
+    const rounds = await getRounds({ profileId: "default" });
+
+    expect(rounds.map((r) => r.id)).toEqual(["old"]);
+    expect(rounds[0].profileId).toBe("default");
+    expect(rounds[0].player).toBe("rock");
+  });
+
+  it("filters by profile and time, keeping the most recent", async () => {
+    await saveRounds([
+      round("a1", "ana", 100),
+      round("a2", "ana", 200),
+      round("a3", "ana", 300),
+      round("a4", "ana", 400),
+      round("b1", "bia", 250),
+    ]);
+
+    expect((await getRounds({ profileId: "ana" })).map((r) => r.id)).toEqual([
+      "a1",
+      "a2",
+      "a3",
+      "a4",
+    ]);
+    expect(
+      (await getRounds({ profileId: "ana", since: 200, limit: 2 })).map((r) => r.id)
+    ).toEqual(["a3", "a4"]);
+    expect((await getRounds({ since: 250 })).map((r) => r.id)).toEqual(["b1", "a3", "a4"]);
+  });
+
+  it("clears one profile's rounds without touching the others", async () => {
+    await saveRounds([round("a1", "ana", 1), round("b1", "bia", 2), round("a2", "ana", 3)]);
+
+    await clearRounds("ana");
+
+    expect(await getRounds({ profileId: "ana" })).toEqual([]);
+    expect((await getRounds()).map((r) => r.id)).toEqual(["b1"]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  classicRules,
+  createRuleEngine,
+  getRuleEngine,
+  RULE_SETS,
+  validateRuleSet,
+  type RuleSet,
+} from "@/lib/rules";
+
+const gesture = (id: string) => ({ id, label: id, emoji: "" });
+
+const ruleSet = (ids: string[], beats: [string, string][]): RuleSet => ({
+  id: "classic",
+  name: "test",
+  description: "",
+  gestures: ids.map(gesture),
+  beats: beats.map(([winner, loser]) => ({ winner, loser, verb: "beats" })),
+});
+
+describe("validateRuleSet", () => {
+  it("accepts every built-in rule set", () => {
+    for (const rules of RULE_SETS) expect(validateRuleSet(rules)).toEqual([]);
+  });
+
+  it("rejects an even number of gestures", () => {
+    const errors = validateRuleSet(
+      ruleSet(["a", "b", "c", "d"], [["a", "b"], ["b", "c"], ["c", "d"], ["d", "a"], ["a", "c"], ["b", "d"]])
+    );
+    expect(errors.join()).toMatch(/even count/);
+  });
+
+  it("reports missing, duplicate and unknown rules", () => {
+    const errors = validateRuleSet(
+      ruleSet(["a", "b", "c"], [["a", "b"], ["b", "a"], ["a", "z"]])
+    );
+    expect(errors).toContain("more than one rule between a / b");
+    expect(errors).toContain("no rule between b / c");
+    expect(errors).toContain('rule "a" beats "z" uses an unknown gesture');
+  });
+
+  it("rejects a gesture that beats everything", () => {
+    const errors = validateRuleSet(ruleSet(["a", "b", "c"], [["a", "b"], ["a", "c"], ["b", "c"]]));
+    expect(errors).toContain('"a" beats 2 gestures, expected 1');
+  });
+
+  it("makes createRuleEngine throw", () => {
+    expect(() => createRuleEngine(ruleSet(["a", "b"], [["a", "b"]]))).toThrow(/Invalid rule set/);
+  });
+});
+
+describe("classic rules", () => {
+  it("keeps the original results", () => {
+    expect(classicRules.getResult("rock", "scisors")).toBe("win");
+    expect(classicRules.getResult("rock", "paper")).toBe("lose");
+    expect(classicRules.getResult("paper", "paper")).toBe("draw");
+    expect(classicRules.getResult("idle", "rock")).toBe("lose");
+  });
+
+  it("treats gestures outside the rule set like idle", () => {
+    expect(classicRules.getResult("lizard", "rock")).toBe("lose");
+    expect(classicRules.describe("lizard", "rock")).toBeNull();
+  });
+
+  it("describes the deciding rule from either side", () => {
+    expect(classicRules.describe("rock", "scisors")).toBe("Pedra quebra Tesoura");
+    expect(classicRules.describe("scisors", "rock")).toBe("Pedra quebra Tesoura");
+    expect(classicRules.describe("rock", "rock")).toBeNull();
+  });
+
+  it("labels idle", () => {
+    expect(classicRules.label("idle")).toBe("Nada");
+    expect(classicRules.emoji("idle")).toBe("😴");
+  });
+});
+
+describe("rpsls rules", () => {
+  const rules = getRuleEngine("rpsls");
+
+  it("gives every gesture two counters", () => {
+    expect(rules.countersOf("spock").sort()).toEqual(["lizard", "paper"]);
+    expect(rules.victimsOf("spock").sort()).toEqual(["rock", "scisors"]);
+  });
+
+  it("resolves the extra gestures", () => {
+    expect(rules.getResult("lizard", "spock")).toBe("win");
+    expect(rules.describe("rock", "spock")).toBe("Spock vaporiza Pedra");
+  });
+});
+
+describe("getRuleEngine", () => {
+  it("falls back to the classic rules", () => {
+    expect(getRuleEngine("nope" as never)).toBe(classicRules);
+  });
+});
@@ -0,0 +1,56 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import * as tf from "@tensorflow/tfjs";
+import { computeSaliency, normalizeSaliency } from "@/lib/saliency";
+
+beforeAll(async () => {
+  await tf.setBackend("cpu");
+});
+
+describe("normalizeSaliency", () => {
+  it("scales by the strongest value", () => {
+    expect(normalizeSaliency([0, 2, 4])).toEqual([0, 0.5, 1]);
+    expect(normalizeSaliency([0, 0])).toEqual([0, 0]);
+  });
+});
+
+describe("computeSaliency", () => {
+  // Class 0 only looks at the red channel of the top-left pixel
+  function topLeftModel() {
+    const model = tf.sequential({
+      layers: [
+        tf.layers.flatten({ inputShape: [4, 4, 3] }),
+        tf.layers.dense({ units: 2, activation: "softmax" }),
+      ],
+    });
+    const kernel = tf.buffer([48, 2]);
+    kernel.set(5, 0, 0);
+    model.layers[1].setWeights([kernel.toTensor(), tf.tensor1d([1, 0])]);
+    return model;
+  }
+
+  it("lights up the pixels the top class depends on", async () => {
+    const model = topLeftModel();
+    const input = tf.ones([1, 4, 4, 3]) as tf.Tensor4D;
+
+    const saliency = await computeSaliency(tf, model, input, 4);
+
+    expect(saliency.classIndex).toBe(0);
+    expect(saliency.probability).toBeGreaterThan(0.5);
+    expect(saliency.values[0]).toBe(1);
+    expect(saliency.values.slice(1).every((v) => v === 0)).toBe(true);
+    input.dispose();
+    model.dispose();
+  });
+
+  it("does not leak tensors", async () => {
+    const model = topLeftModel();
+    const input = tf.ones([1, 4, 4, 3]) as tf.Tensor4D;
+    const before = tf.memory().numTensors;
+
+    await computeSaliency(tf, model, input, 4);
+
+    expect(tf.memory().numTensors).toBe(before);
+    input.dispose();
+    model.dispose();
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import { classFolderName, exportSamplesZip } from "@/lib/sampleExport";
+import { createSample } from "@/lib/samples";
+
+describe("classFolderName", () => {
+  it("replaces characters folders can't have", () => {
+    expect(classFolderName("Pedra/Papel: 1")).toBe("Pedra_Papel_ 1");
+    expect(classFolderName("  ")).toBe("_");
+  });
+});
+
+describe("exportSamplesZip", () => {
+  it("puts each class in its own folder", async () => {
+    const image = (text: string) => new Blob([text], { type: "image/jpeg" });
+    const blob = await exportSamplesZip([
+      createSample("Pedra", image("a")),
+      createSample("Papel", image("b")),
+      createSample("Pedra", image("c")),
+    ]);
+
+    const zip = await JSZip.loadAsync(blob);
+    const files = Object.keys(zip.files).filter((name) => !zip.files[name].dir);
+    expect(files.sort()).toEqual(["Papel/0001.jpg", "Pedra/0001.jpg", "Pedra/0002.jpg"]);
+    expect(await zip.file("Pedra/0002.jpg").async("string")).toBe("c");
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { sampleSourceRect } from "@/lib/samples";
+
+describe("sampleSourceRect", () => {
+  it("takes the centered square without a hand area", () => {
+    expect(sampleSourceRect(640, 480, null, true)).toEqual({ x: 80, y: 0, size: 480 });
+  });
+
+  it("maps the hand area into the centered square", () => {
+    const roi = { x: 0.5, y: 0.25, size: 0.5 };
+    expect(sampleSourceRect(640, 480, roi, false)).toEqual({ x: 320, y: 120, size: 240 });
+  });
+
+  it("flips the hand area back when the preview is mirrored", () => {
+    const roi = { x: 0, y: 0, size: 0.25 };
+    // On screen it sits top-left; in the raw frame it is top-right
+    expect(sampleSourceRect(400, 400, roi, true)).toEqual({ x: 300, y: 0, size: 100 });
+  });
+});
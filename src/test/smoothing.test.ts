@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  classThresholds,
+  createSmoothingState,
+  pickTarget,
+  smoothProbabilities,
+  stepSmoothing,
+  type SmoothingConfig,
+  type SmoothingState,
+} from "@/lib/smoothing";
+
+const config: SmoothingConfig = {
+  alpha: 0.5,
+  enterThreshold: 0.7,
+  exitThreshold: 0.4,
+  minDwellMs: 100,
+};
+
+const frame = (probs: Record<string, number>) =>
+  Object.entries(probs).map(([className, probability]) => ({ className, probability }));
+
+describe("smoothProbabilities", () => {
+  it("starts from the first frame", () => {
+    expect(smoothProbabilities({}, frame({ rock: 0.8, idle: 0.2 }), 0.5)).toEqual({
+      rock: 0.8,
+      idle: 0.2,
+    });
+  });
+
+  it("blends new frames with the running average", () => {
+    expect(smoothProbabilities({ rock: 0.8 }, frame({ rock: 0.2 }), 0.25).rock).toBeCloseTo(0.65);
+  });
+});
+
+describe("pickTarget", () => {
+  it("switches only when the top class clears the enter threshold", () => {
+    expect(pickTarget({ rock: 0.69, idle: 0.31 }, "idle", config)).toBe("idle");
+    expect(pickTarget({ rock: 0.7, idle: 0.3 }, "idle", config)).toBe("rock");
+  });
+
+  it("keeps the current gesture while it stays above the exit threshold", () => {
+    expect(pickTarget({ rock: 0.45, paper: 0.55 }, "rock", config)).toBe("rock");
+  });
+
+  it("falls back to idle once the current gesture drops below the exit threshold", () => {
+    expect(pickTarget({ rock: 0.35, paper: 0.65 }, "rock", config)).toBe("idle");
+  });
+});
+
+describe("calibrated thresholds", () => {
+  it("replace the enter threshold and keep the hysteresis gap", () => {
+    expect(classThresholds("rock", config)).toEqual({ enter: 0.7, exit: 0.4 });
+    const { enter, exit } = classThresholds("scisors", config, { scisors: 0.4 });
+    expect(enter).toBe(0.4);
+    expect(exit).toBeCloseTo(0.1);
+  });
+
+  it("let a timid class show up like it would be captured", () => {
+    const averages = { scisors: 0.42, paper: 0.3, idle: 0.28 };
+    expect(pickTarget(averages, "idle", config)).toBe("idle");
+    expect(pickTarget(averages, "idle", config, "idle", { scisors: 0.4 })).toBe("scisors");
+  });
+
+  it("pick the most probable class among those clearing their bar", () => {
+    const averages = { rock: 0.5, scisors: 0.45 };
+    expect(pickTarget(averages, "idle", config, "idle", { scisors: 0.4 })).toBe("scisors");
+  });
+});
+
+describe("stepSmoothing", () => {
+  it("ignores empty frames", () => {
+    const state = createSmoothingState();
+    expect(stepSmoothing(state, [], 0, config)).toBe(state);
+  });
+
+  it("waits for the minimum dwell time before switching", () => {
+    let state = createSmoothingState();
+    state = stepSmoothing(state, frame({ rock: 0.9, idle: 0.1 }), 0, config);
+    expect(state.current).toBe("idle");
+    expect(state.pending).toBe("rock");
+
+    state = stepSmoothing(state, frame({ rock: 0.9, idle: 0.1 }), 50, config);
+    expect(state.current).toBe("idle");
+
+    state = stepSmoothing(state, frame({ rock: 0.9, idle: 0.1 }), 100, config);
+    expect(state.current).toBe("rock");
+    expect(state.pending).toBeNull();
+  });
+
+  it("restarts the dwell timer when the contender changes", () => {
+    let state = createSmoothingState();
+    state = stepSmoothing(state, frame({ rock: 0.9, paper: 0.1 }), 0, { ...config, alpha: 1 });
+    state = stepSmoothing(state, frame({ rock: 0.1, paper: 0.9 }), 80, { ...config, alpha: 1 });
+    expect(state.pending).toBe("paper");
+    expect(state.pendingSince).toBe(80);
+
+    state = stepSmoothing(state, frame({ rock: 0.1, paper: 0.9 }), 120, { ...config, alpha: 1 });
+    expect(state.current).toBe("idle");
+  });
+
+  it("does not flicker on a single noisy frame", () => {
+    let state: SmoothingState = {
+      ...createSmoothingState(),
+      current: "rock",
+      averages: { rock: 0.9, paper: 0.1 },
+    };
+    state = stepSmoothing(state, frame({ rock: 0.1, paper: 0.9 }), 0, config);
+    expect(state.current).toBe("rock");
+    state = stepSmoothing(state, frame({ rock: 0.9, paper: 0.1 }), 16, config);
+    expect(state.current).toBe("rock");
+    expect(state.pending).toBeNull();
+  });
+
+  it("switches immediately with a zero dwell time", () => {
+    const state = stepSmoothing(createSmoothingState(), frame({ paper: 0.95 }), 0, {
+      ...config,
+      minDwellMs: 0,
+    });
+    expect(state.current).toBe("paper");
+  });
+});
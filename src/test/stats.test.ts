@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import type { StoredRound } from "@/lib/roundHistory";
+import type { GameResult } from "@/lib/rules";
+import {
+  confidenceByGesture,
+  gestureDistribution,
+  strategyPerformance,
+  streaks,
+  winRateOverTime,
+} from "@/lib/stats";
+
+let nextId = 0;
+
+const round = (
+  result: GameResult,
+  patch: Partial<StoredRound> = {}
+): StoredRound => ({
+  id: String(nextId++),
+  timestamp: nextId,
+  sessionId: "s",
+  profileId: "default",
+  match: 1,
+  player: "rock",
+  computer: "scisors",
+  result,
+  predictions: [],
+  readings: [],
+  strategy: "random",
+  ruleSet: "classic",
+  modelId: null,
+  ...patch,
+});
+
+describe("winRateOverTime", () => {
+  it("tracks the cumulative and rolling win rate", () => {
+    const points = winRateOverTime([round("win"), round("lose"), round("lose")], 2);
+    expect(points.map((p) => p.cumulative)).toEqual([1, 0.5, 1 / 3]);
+    expect(points.map((p) => p.rolling)).toEqual([1, 0.5, 0]);
+  });
+});
+
+describe("gestureDistribution", () => {
+  it("counts each side's gestures", () => {
+    const counts = gestureDistribution([
+      round("win"),
+      round("lose", { player: "paper", computer: "scisors" }),
+    ]);
+    expect(counts).toEqual([
+      { gesture: "rock", player: 1, computer: 0 },
+      { gesture: "scisors", player: 0, computer: 2 },
+      { gesture: "paper", player: 1, computer: 0 },
+    ]);
+  });
+});
+
+describe("streaks", () => {
+  it("finds the longest runs and the current one", () => {
+    const summary = streaks(
+      ["win", "win", "draw", "lose", "lose", "lose", "win"].map((r) => round(r as GameResult))
+    );
+    expect(summary.longestWin).toBe(2);
+    expect(summary.longestLose).toBe(3);
+    expect(summary.current).toEqual({ result: "win", length: 1 });
+  });
+
+  it("has no current streak without rounds", () => {
+    expect(streaks([]).current).toBeNull();
+  });
+});
+
+describe("strategyPerformance", () => {
+  it("splits results by CPU strategy", () => {
+    const [random, markov] = strategyPerformance([
+      round("win"),
+      round("draw"),
+      round("lose", { strategy: "markov" }),
+    ]);
+    expect(random).toMatchObject({ strategy: "random", rounds: 2, wins: 1, draws: 1, winRate: 0.5 });
+    expect(markov).toMatchObject({ strategy: "markov", rounds: 1, losses: 1, winRate: 0 });
+  });
+});
+
+describe("confidenceByGesture", () => {
+  it("averages the top probability per player gesture", () => {
+    const predictions = (top: number) => [
+      { className: "rock", probability: top },
+      { className: "paper", probability: 1 - top },
+    ];
+    const [rock] = confidenceByGesture([
+      round("win", { predictions: predictions(0.9) }),
+      round("win", { predictions: predictions(0.7) }),
+      round("win"),
+    ]);
+    expect(rock.rounds).toBe(2);
+    expect(rock.confidence).toBeCloseTo(0.8);
+  });
+});
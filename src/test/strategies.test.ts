@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import type { GameChoice } from "@/hooks/useTeachableModel";
+import { classicRules, getRuleEngine } from "@/lib/rules";
+import {
+  createMarkovStrategy,
+  easyStrategy,
+  frequencyStrategy,
+  getStrategy,
+  randomStrategy,
+  winStayLoseShiftStrategy,
+  type RoundRecord,
+} from "@/lib/strategies";
+
+const round = (player: GameChoice, computer: GameChoice): RoundRecord => ({
+  player,
+  computer,
+  result: classicRules.getResult(player, computer),
+  strategy: "random",
+  match: 1,
+});
+
+// Always picks the first option, so the fallbacks are predictable
+const first = () => 0;
+
+describe("randomStrategy", () => {
+  it("maps the random source onto the three gestures", () => {
+    expect(randomStrategy.choose([], () => 0)).toBe("rock");
+    expect(randomStrategy.choose([], () => 0.5)).toBe("paper");
+    expect(randomStrategy.choose([], () => 0.99)).toBe("scisors");
+  });
+});
+
+describe("easyStrategy", () => {
+  it("usually plays what loses to the player's last gesture", () => {
+    expect(easyStrategy.choose([round("rock", "paper")], () => 0.1)).toBe("scisors");
+  });
+});
+
+describe("frequencyStrategy", () => {
+  it("counters the player's favourite gesture, ignoring idle rounds", () => {
+    const history = [
+      round("paper", "rock"),
+      round("idle", "rock"),
+      round("idle", "rock"),
+      round("paper", "rock"),
+      round("rock", "rock"),
+    ];
+    expect(frequencyStrategy.choose(history, first)).toBe("scisors");
+  });
+
+  it("plays at random without history", () => {
+    expect(frequencyStrategy.choose([], first)).toBe("rock");
+  });
+});
+
+describe("markovStrategy", () => {
+  it("learns a repeating sequence", () => {
+    const cycle: GameChoice[] = ["rock", "rock", "paper", "rock", "rock", "paper", "rock", "rock"];
+    const history = cycle.map((m) => round(m, "scisors"));
+    // After "rock, rock" the player has always played paper
+    expect(createMarkovStrategy(2).choose(history, first)).toBe("scisors");
+  });
+
+  it("falls back to frequency with too little history", () => {
+    expect(createMarkovStrategy(3).choose([round("paper", "rock")], first)).toBe("scisors");
+  });
+});
+
+describe("winStayLoseShiftStrategy", () => {
+  it("expects a winner to repeat", () => {
+    expect(winStayLoseShiftStrategy.choose([round("rock", "scisors")], first)).toBe("paper");
+  });
+
+  it("expects a loser to switch to what would have won", () => {
+    // Player lost with rock against paper, so switches to scisors
+    expect(winStayLoseShiftStrategy.choose([round("rock", "paper")], first)).toBe("rock");
+  });
+});
+
+describe("with five gestures", () => {
+  const rules = getRuleEngine("rpsls");
+
+  it("counters with any gesture that beats the favourite", () => {
+    const history = [round("rock", "paper"), round("rock", "paper")];
+    expect(frequencyStrategy.choose(history, first, rules)).toBe("paper");
+    expect(frequencyStrategy.choose(history, () => 0.99, rules)).toBe("spock");
+  });
+
+  it("plays all five gestures at random", () => {
+    expect(randomStrategy.choose([], () => 0.99, rules)).toBe("spock");
+  });
+});
+
+describe("getStrategy", () => {
+  it("falls back to random for unknown ids", () => {
+    expect(getStrategy("nope" as never)).toBe(randomStrategy);
+  });
+});
@@ -0,0 +1,94 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import * as tf from "@tensorflow/tfjs";
+import { buildModel } from "@/lib/modelArchive";
+import {
+  checkTrainingSet,
+  featureExtractor,
+  splitTrainingSet,
+  trainHead,
+  trainingLabels,
+  type TrainingEpoch,
+} from "@/lib/training";
+
+beforeAll(async () => {
+  await tf.setBackend("cpu");
+});
+
+describe("trainingLabels", () => {
+  it("keeps the current model's order and appends new classes", () => {
+    expect(trainingLabels(["rock", "ok", "paper", "rock"], ["paper", "scissors", "rock"])).toEqual([
+      "paper",
+      "rock",
+      "ok",
+    ]);
+  });
+});
+
+describe("checkTrainingSet", () => {
+  it("needs two classes with enough samples each", () => {
+    expect(() => checkTrainingSet({ rock: 10 })).toThrow("two classes");
+    expect(() => checkTrainingSet({ rock: 10, paper: 2 })).toThrow("paper");
+    expect(() => checkTrainingSet({ rock: 10, paper: 5, empty: 0 })).not.toThrow();
+  });
+});
+
+describe("splitTrainingSet", () => {
+  it("holds out a shuffled share of the samples", () => {
+    const { train, validation } = splitTrainingSet(10, 0.2, () => 0);
+    expect(validation).toHaveLength(2);
+    expect(train).toHaveLength(8);
+    expect([...train, ...validation].sort((a, b) => a - b)).toEqual([...Array(10).keys()]);
+    // Not just the tail, which would be the last class
+    expect(validation).not.toEqual([8, 9]);
+  });
+});
+
+describe("trainHead", () => {
+  // Same shape as a Teachable Machine model: a frozen base, then a head
+  function tinyModel() {
+    const base = tf.sequential({
+      layers: [
+        tf.layers.flatten({ inputShape: [2, 2, 3] }),
+        tf.layers.dense({ units: 4, activation: "relu" }),
+      ],
+    });
+    const head = tf.sequential({
+      layers: [tf.layers.dense({ inputShape: [4], units: 3, activation: "softmax" })],
+    });
+    return tf.sequential({ layers: [base, head] });
+  }
+
+  it("rejects models without a separate feature extractor", () => {
+    const flat = tf.sequential({ layers: [tf.layers.dense({ inputShape: [2], units: 2 })] });
+    expect(() => featureExtractor(flat)).toThrow("feature extractor");
+  });
+
+  it("trains a head for the new classes on top of the frozen base", async () => {
+    const model = tinyModel();
+    const base = featureExtractor(model);
+    const inputs = [tf.ones([1, 2, 2, 3]), tf.zeros([1, 2, 2, 3]).add(-1)];
+    const features = [0, 0, 0, 0, 1, 1, 1, 1].map(
+      (i) => base.predict(inputs[i]) as tf.Tensor2D
+    );
+    const epochs: TrainingEpoch[] = [];
+
+    const trained = await trainHead(
+      tf,
+      base,
+      features,
+      [0, 0, 0, 0, 1, 1, 1, 1],
+      2,
+      { epochs: 3, batchSize: 4, learningRate: 0.01, validationSplit: 0.25 },
+      (epoch) => epochs.push(epoch)
+    );
+
+    expect(epochs.map((e) => e.epoch)).toEqual([1, 2, 3]);
+    expect(epochs[0].valAccuracy).not.toBeNull();
+
+    const rebuilt = await buildModel({ ...trained, metadata: { labels: ["a", "b"] } });
+    const output = rebuilt.predict(inputs[0]) as tf.Tensor;
+    expect(output.shape).toEqual([1, 2]);
+    // The original model still works: its base wasn't disposed with the head
+    expect((model.predict(inputs[0]) as tf.Tensor).shape).toEqual([1, 3]);
+  });
+});
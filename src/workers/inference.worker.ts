@@ -0,0 +1,59 @@
+import {
+  explainFrame,
+  exportEngineModel,
+  getEngineMemory,
+  loadEngineModel,
+  predictFrame,
+  switchBackend,
+  trainEngineModel,
+} from "@/lib/inferenceEngine";
+import type { WorkerRequest, WorkerResponse } from "./inferenceProtocol";
+
+function post(message: WorkerResponse) {
+  self.postMessage(message);
+}
+
+self.addEventListener("message", async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === "load") {
+      const info = await loadEngineModel(request.source, request.backend, (progress) =>
+        post({ type: "progress", id: request.id, progress })
+      );
+      post({ type: "loaded", id: request.id, info });
+    } else if (request.type === "backend") {
+      const backend = await switchBackend(request.backend);
+      post({ type: "backend", id: request.id, backend });
+    } else if (request.type === "train") {
+      const info = await trainEngineModel(request.samples, request.options, (epoch) =>
+        post({ type: "epoch", id: request.id, epoch })
+      );
+      post({ type: "loaded", id: request.id, info });
+    } else if (request.type === "export") {
+      post({ type: "archive", id: request.id, archive: await exportEngineModel() });
+    } else if (request.type === "memory") {
+      post({ type: "memory", id: request.id, memory: await getEngineMemory() });
+    } else if (request.type === "explain") {
+      try {
+        const saliency = await explainFrame(request.frame, request.view);
+        post({ type: "saliency", id: request.id, saliency });
+      } finally {
+        request.frame.close();
+      }
+    } else {
+      try {
+        const probabilities = await predictFrame(request.frame, request.view);
+        post({ type: "prediction", id: request.id, probabilities });
+      } finally {
+        request.frame.close();
+      }
+    }
+  } catch (err) {
+    post({
+      type: "error",
+      id: request.id,
+      message: err instanceof Error ? err.message : String(err),
+    });
+  }
+});
@@ -0,0 +1,29 @@
+import type { BackendName } from "@/lib/backends";
+import type { EngineMemory, EngineModelInfo } from "@/lib/inferenceEngine";
+import type { LoadProgress, ModelArchive, ModelSource } from "@/lib/modelArchive";
+import type { FrameView } from "@/lib/preprocess";
+import type { Saliency } from "@/lib/saliency";
+import type { BackendPreference } from "@/lib/settings";
+import type { TrainingEpoch, TrainingOptions, TrainingSample } from "@/lib/training";
+
+/** Messages the main thread sends to the inference worker. */
+export type WorkerRequest =
+  | { type: "load"; id: number; source: ModelSource | string; backend: BackendPreference }
+  | { type: "backend"; id: number; backend: BackendPreference }
+  | { type: "predict"; id: number; frame: ImageBitmap; view: FrameView }
+  | { type: "explain"; id: number; frame: ImageBitmap; view: FrameView }
+  | { type: "memory"; id: number }
+  | { type: "train"; id: number; samples: TrainingSample[]; options: TrainingOptions }
+  | { type: "export"; id: number };
+
+/** Messages the inference worker sends back. `id` matches the request. */
+export type WorkerResponse =
+  | { type: "progress"; id: number; progress: LoadProgress }
+  | { type: "loaded"; id: number; info: EngineModelInfo }
+  | { type: "backend"; id: number; backend: BackendName }
+  | { type: "prediction"; id: number; probabilities: number[] }
+  | { type: "saliency"; id: number; saliency: Saliency | null }
+  | { type: "memory"; id: number; memory: EngineMemory }
+  | { type: "epoch"; id: number; epoch: TrainingEpoch }
+  | { type: "archive"; id: number; archive: ModelArchive }
+  | { type: "error"; id: number; message: string };